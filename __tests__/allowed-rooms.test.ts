@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createUniqueUuid } from '@elizaos/core';
+import allowRoom from '../src/actions/allowRoom';
+import disallowRoom from '../src/actions/disallowRoom';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Allowed Rooms', () => {
+  let mockRuntime: MockRuntime;
+
+  const createService = (matrixSettings = {}) => createMatrixService(mockRuntime, matrixSettings);
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime({ MATRIX_ROOM_IDS: '!env:matrix.org' });
+  });
+
+  it('should keep dynamically allowed rooms across restarts', async () => {
+    const service = createService();
+    service.addAllowedRoom('!joined:matrix.org');
+    await vi.waitFor(() => expect(mockRuntime.cache.has('matrix/allowed-rooms')).toBe(true));
+
+    const restarted = createService();
+    await listener(restarted, 'room.message')('!joined:matrix.org', {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: '$1:matrix.org',
+      content: { msgtype: 'm.text', body: 'Hello' },
+    });
+
+    expect(restarted.isRoomAllowed('!joined:matrix.org')).toBe(true);
+    expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+      expect.arrayContaining(['MESSAGE_RECEIVED']),
+      expect.anything(),
+    );
+  });
+
+  it('should report where each allowed room came from', async () => {
+    const service = createService({ inviteRules: ['any'] });
+    service.addAllowedRoom('!dynamic:matrix.org');
+
+    await listener(service, 'room.invite')('!invited:matrix.org', {
+      type: 'm.room.member',
+      sender: '@user:matrix.org',
+      state_key: '@bot:matrix.org',
+      content: { membership: 'invite' },
+    });
+
+    expect(service.getAllowedRoomEntries()).toEqual([
+      { roomId: '!env:matrix.org', source: 'env' },
+      expect.objectContaining({ roomId: '!dynamic:matrix.org', source: 'dynamic' }),
+      expect.objectContaining({ roomId: '!invited:matrix.org', source: 'invite' }),
+    ]);
+  });
+
+  it('should allow and disallow rooms through actions', async () => {
+    const service = createService({ roomAdmins: ['@admin:matrix.org'] });
+    const runtime = { getService: vi.fn().mockReturnValue(service) } as any;
+    const action = (roomId: string) =>
+      ({
+        entityId: createUniqueUuid(mockRuntime, '@admin:matrix.org'),
+        content: { roomId },
+      }) as any;
+
+    await expect(allowRoom.handler(runtime, action('!new:matrix.org'))).resolves.toEqual({
+      success: true,
+    });
+    expect(service.isRoomAllowed('!new:matrix.org')).toBe(true);
+    await expect(allowRoom.handler(runtime, action('#alias:matrix.org'))).resolves.toEqual({
+      success: true,
+    });
+    expect(service.isRoomAllowed('!alias:matrix.org')).toBe(true);
+    await expect(disallowRoom.handler(runtime, action('#alias:matrix.org'))).resolves.toEqual({
+      success: true,
+    });
+
+    await expect(disallowRoom.handler(runtime, action('!env:matrix.org'))).resolves.toEqual({
+      success: false,
+    });
+    await expect(disallowRoom.handler(runtime, action('!new:matrix.org'))).resolves.toEqual({
+      success: true,
+    });
+    expect(service.getAllowedRooms()).toEqual(['!env:matrix.org']);
+  });
+
+  it('should refuse allowlist changes from anyone but room admins', async () => {
+    const service = createService({ inviteOperator: '@admin:matrix.org' });
+    const runtime = { getService: vi.fn().mockReturnValue(service) } as any;
+    const message = {
+      entityId: createUniqueUuid(mockRuntime, '@user:matrix.org'),
+      content: { roomId: '!new:matrix.org' },
+    } as any;
+
+    await expect(allowRoom.handler(runtime, message)).resolves.toEqual({ success: false });
+    expect(service.isRoomAllowed('!new:matrix.org')).toBe(false);
+
+    service.addAllowedRoom('!new:matrix.org');
+    await expect(disallowRoom.handler(runtime, message)).resolves.toEqual({ success: false });
+    expect(service.isRoomAllowed('!new:matrix.org')).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { BotClassifier } from '../src/bots';
+import { type MockRuntime, createMockRuntime, createService, listener } from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('BotClassifier', () => {
+  it('should match "bot" as a separate word in the localpart', () => {
+    const classifier = new BotClassifier();
+
+    expect(classifier.isBot('@bot:matrix.org')).toBe(true);
+    expect(classifier.isBot('@github-bot:matrix.org')).toBe(true);
+    expect(classifier.isBot('@bot_helper:matrix.org')).toBe(true);
+    expect(classifier.isBot('@abbot:matrix.org')).toBe(false);
+    expect(classifier.isBot('@robot:matrix.org')).toBe(false);
+    expect(classifier.isBot('@alice:bot.example.org')).toBe(false);
+  });
+
+  it('should use custom patterns and appservice namespaces', () => {
+    const classifier = new BotClassifier({
+      userIdPatterns: ['^@agent-'],
+      appserviceNamespaces: ['@_discord_.*:matrix\\.org'],
+    });
+
+    expect(classifier.isBot('@agent-eliza:matrix.org')).toBe(true);
+    expect(classifier.isBot('@_discord_1234:matrix.org')).toBe(true);
+    expect(classifier.isBot('@bot:matrix.org')).toBe(false);
+  });
+
+  it('should apply the explicit lists over patterns', () => {
+    const classifier = new BotClassifier({
+      botUserIds: ['@alice:matrix.org'],
+      humanUserIds: ['@bot:matrix.org'],
+    });
+
+    expect(classifier.isBot('@alice:matrix.org')).toBe(true);
+    expect(classifier.isBot('@bot:matrix.org')).toBe(false);
+  });
+
+  it('should learn bots from m.notice messages', () => {
+    const classifier = new BotClassifier();
+
+    expect(classifier.classifyMessage('@feeds:matrix.org', 'm.text')).toBe(false);
+    expect(classifier.classifyMessage('@feeds:matrix.org', 'm.notice')).toBe(true);
+    expect(classifier.isBot('@feeds:matrix.org')).toBe(true);
+  });
+
+  it('should skip invalid patterns', () => {
+    const onInvalidPattern = vi.fn();
+    const classifier = new BotClassifier({ userIdPatterns: ['(', '^@x'], onInvalidPattern });
+
+    expect(onInvalidPattern).toHaveBeenCalledWith('(', expect.anything());
+    expect(classifier.isBot('@x:matrix.org')).toBe(true);
+  });
+});
+
+describe('Bot Sender Handling', () => {
+  let mockRuntime: MockRuntime;
+  let messageCount: number;
+
+  const receive = async (service: MatrixService, sender: string, roomId = '!room:matrix.org') => {
+    await listener(service, 'room.message')(roomId, {
+      type: 'm.room.message',
+      sender,
+      event_id: `$message${++messageCount}:matrix.org`,
+      content: { msgtype: 'm.text', body: 'Hello there' },
+    });
+    return mockRuntime.emitEvent.mock.calls.at(-1)?.[1];
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    messageCount = 0;
+  });
+
+  it('should tag messages with senderIsBot', async () => {
+    const service = createService(mockRuntime);
+
+    const human = await receive(service, '@abbot:matrix.org');
+    expect(human.message.content.metadata.senderIsBot).toBe(false);
+
+    const bot = await receive(service, '@helper-bot:matrix.org');
+    expect(bot.message.content.metadata.senderIsBot).toBe(true);
+    expect(bot.message.content.metadata.observeOnly).toBe(false);
+  });
+
+  it('should ignore bots with shouldIgnoreBotMessages but not humans like @abbot', async () => {
+    const service = createService(mockRuntime, { shouldIgnoreBotMessages: true });
+
+    await receive(service, '@helper-bot:matrix.org');
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+
+    await receive(service, '@abbot:matrix.org');
+    expect(mockRuntime.emitEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let rooms observe bot messages', async () => {
+    const service = createService(mockRuntime, {
+      botMessages: 'ignore',
+      botMessagesByRoom: { '!agents:matrix.org': 'observe' },
+    });
+
+    await receive(service, '@helper-bot:matrix.org');
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+
+    await receive(service, '@helper-bot:matrix.org', '!agents:matrix.org');
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+    expect(mockRuntime.createMemory.mock.calls[0][0].content.metadata.observeOnly).toBe(true);
+  });
+
+  it('should expose isBot on the service', () => {
+    const service = createService(mockRuntime, { botUserIds: ['@eliza2:matrix.org'] });
+
+    expect(service.isBot('@eliza2:matrix.org')).toBe(true);
+    expect(service.isBot('@alice:matrix.org')).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { isAllowlisted, getServerName } from '../src/directMessages';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('DM Allowlist', () => {
+  it('should extract server names', () => {
+    expect(getServerName('@alice:Example.org')).toBe('example.org');
+  });
+
+  it('should match users and homeservers', () => {
+    const allowlist = ['@alice:matrix.org', 'example.org', ':corp.net'];
+
+    expect(isAllowlisted('@alice:matrix.org', allowlist)).toBe(true);
+    expect(isAllowlisted('@bob:matrix.org', allowlist)).toBe(false);
+    expect(isAllowlisted('@bob:example.org', allowlist)).toBe(true);
+    expect(isAllowlisted('@carol:corp.net', allowlist)).toBe(true);
+  });
+});
+
+describe('Direct Message Policy', () => {
+  let mockRuntime: MockRuntime;
+  let dmCount: number;
+
+  // A DM with @user, listed in m.direct, next to a group room with @friend
+  const createService = (
+    matrixSettings: Record<string, unknown> = {},
+    client: Record<string, unknown> = {},
+  ) =>
+    createMatrixService(mockRuntime, matrixSettings, {
+      getJoinedRooms: vi.fn().mockResolvedValue(['!dm:matrix.org', '!group:matrix.org']),
+      getJoinedRoomMembers: vi
+        .fn()
+        .mockImplementation(async (roomId: string) =>
+          roomId === '!group:matrix.org'
+            ? ['@bot:matrix.org', '@friend:matrix.org', '@other:matrix.org']
+            : ['@bot:matrix.org', '@user:matrix.org'],
+        ),
+      getAccountData: vi.fn().mockResolvedValue({ '@user:matrix.org': ['!dm:matrix.org'] }),
+      ...client,
+    });
+
+  const messagesReceived = () => emitted(mockRuntime, 'MESSAGE_RECEIVED');
+
+  const receiveDM = async (service: MatrixService, sender = '@user:matrix.org') => {
+    await listener(service, 'room.message')('!dm:matrix.org', {
+      type: 'm.room.message',
+      sender,
+      event_id: `$dm${++dmCount}:matrix.org`,
+      content: { msgtype: 'm.text', body: 'Hi bot' },
+    });
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    dmCount = 0;
+  });
+
+  it('should answer DMs by default', async () => {
+    const service = createService();
+    await receiveDM(service);
+
+    expect(messagesReceived()).toHaveLength(1);
+    expect(service.client?.leaveRoom).not.toHaveBeenCalled();
+  });
+
+  it('should ignore DMs and leave when shouldIgnoreDirectMessages is set', async () => {
+    const service = createService({ shouldIgnoreDirectMessages: true });
+    await receiveDM(service);
+
+    expect(messagesReceived()).toHaveLength(0);
+    expect(service.client?.leaveRoom).toHaveBeenCalledWith('!dm:matrix.org');
+    expect(sentMessages(service)).toHaveLength(0);
+  });
+
+  it('should not leave two-member rooms nothing marks as DMs', async () => {
+    const service = createService(
+      { dmPolicy: 'ignore' },
+      { getAccountData: vi.fn().mockRejectedValue(new Error('Server error')) },
+    );
+    await receiveDM(service);
+
+    expect(messagesReceived()).toHaveLength(0);
+    expect(service.client?.leaveRoom).not.toHaveBeenCalled();
+  });
+
+  it('should send the rejection notice once when staying in the room', async () => {
+    const service = createService({
+      dmPolicy: 'ignore',
+      dmRejectionNotice: 'I do not take direct messages.',
+      leaveRejectedDirectMessages: false,
+    });
+    await receiveDM(service);
+    await receiveDM(service);
+
+    expect(sentMessages(service)).toHaveLength(1);
+    expect(sentMessages(service)).toContainEqual([
+      '!dm:matrix.org',
+      {
+        msgtype: 'm.notice',
+        body: 'I do not take direct messages.',
+      },
+    ]);
+    expect(service.client?.leaveRoom).not.toHaveBeenCalled();
+  });
+
+  it('should only accept allowlisted senders', async () => {
+    const service = createService({ dmPolicy: 'allowlist', dmAllowlist: ['example.org'] });
+
+    await receiveDM(service, '@user:matrix.org');
+    expect(messagesReceived()).toHaveLength(0);
+
+    await receiveDM(service, '@user:example.org');
+    expect(messagesReceived()).toHaveLength(1);
+  });
+
+  it('should require a shared group room', async () => {
+    const service = createService({ dmPolicy: 'require-shared-room' });
+
+    expect(await service.isDirectMessageAllowed('@friend:matrix.org')).toBe(true);
+    expect(await service.isDirectMessageAllowed('@user:matrix.org', '!dm:matrix.org')).toBe(false);
+  });
+
+  it('should refuse outbound DMs the policy rejects', async () => {
+    const service = createService({ dmPolicy: 'allowlist', dmAllowlist: ['@friend:matrix.org'] });
+
+    await expect(
+      service.handleSendMessage(
+        mockRuntime as any,
+        { source: 'matrix', entityId: '@stranger:matrix.org' } as any,
+        {
+          text: 'Hello',
+        },
+      ),
+    ).rejects.toThrow('not allowed by the DM policy');
+    expect(service.client?.createRoom).not.toHaveBeenCalled();
+  });
+});
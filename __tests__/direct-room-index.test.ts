@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { DirectRoomIndex } from '../src/directMessages';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Direct Room Index', () => {
+  describe('DirectRoomIndex', () => {
+    it('should index m.direct content by user and room', () => {
+      const index = new DirectRoomIndex();
+      expect(index.isLoaded).toBe(false);
+
+      index.load({
+        '@alice:matrix.org': ['!a1:matrix.org', '!a2:matrix.org'],
+        '@bob:matrix.org': ['!b:matrix.org'],
+        '@broken:matrix.org': 'not a list',
+      });
+
+      expect(index.isLoaded).toBe(true);
+      expect(index.getRooms('@alice:matrix.org')).toEqual(['!a1:matrix.org', '!a2:matrix.org']);
+      expect(index.has('!b:matrix.org')).toBe(true);
+      expect(index.getRooms('@broken:matrix.org')).toEqual([]);
+    });
+
+    it('should add rooms once and export m.direct content', () => {
+      const index = new DirectRoomIndex();
+
+      expect(index.add('@alice:matrix.org', '!a:matrix.org')).toBe(true);
+      expect(index.add('@alice:matrix.org', '!a:matrix.org')).toBe(false);
+
+      expect(index.toContent()).toEqual({ '@alice:matrix.org': ['!a:matrix.org'] });
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    // A group room with Alice and Carol, and a two-member room with Alice,
+    // marked is_direct, that m.direct does not list
+    const createService = () =>
+      createMatrixService(
+        mockRuntime,
+        {},
+        {
+          getJoinedRooms: vi.fn().mockResolvedValue(['!group:matrix.org', '!pair:matrix.org']),
+          getJoinedRoomMembers: vi
+            .fn()
+            .mockImplementation(async (roomId: string) =>
+              roomId === '!group:matrix.org'
+                ? ['@bot:matrix.org', '@alice:matrix.org', '@carol:matrix.org']
+                : ['@bot:matrix.org', '@alice:matrix.org'],
+            ),
+          getRoomState: vi.fn().mockImplementation(async (roomId: string) =>
+            roomId === '!pair:matrix.org'
+              ? [
+                  {
+                    type: 'm.room.member',
+                    state_key: '@bot:matrix.org',
+                    content: { membership: 'join', is_direct: true },
+                  },
+                ]
+              : [],
+          ),
+          getAccountData: vi
+            .fn()
+            .mockRejectedValue(Object.assign(new Error('Not found'), { errcode: 'M_NOT_FOUND' })),
+        },
+      );
+
+    // Send a message to a user and report the room it went to
+    const sendDirectMessage = async (service: MatrixService, userId: string) => {
+      await service.handleSendMessage(
+        mockRuntime as any,
+        { source: 'matrix', entityId: userId } as any,
+        { text: 'Hello' },
+      );
+      return sentMessages(service).at(-1)[0];
+    };
+
+    // The listener for account data arriving through sync
+    const accountDataListener = (service: MatrixService) =>
+      (service.client?.on as any).mock.calls.find(
+        ([event]: [string]) => event === 'account_data',
+      )[1];
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reuse the DM listed in m.direct', async () => {
+      const service = createService();
+      // Membership alone would never pick the group room
+      (service.client?.getAccountData as any).mockResolvedValue({
+        '@alice:matrix.org': ['!gone:matrix.org', '!group:matrix.org'],
+      });
+
+      await expect(sendDirectMessage(service, '@alice:matrix.org')).resolves.toBe(
+        '!group:matrix.org',
+      );
+      expect(service.client?.createRoom).not.toHaveBeenCalled();
+      expect(service.client?.setAccountData).not.toHaveBeenCalled();
+    });
+
+    it('should find a DM by membership when m.direct is missing and record it', async () => {
+      const service = createService();
+
+      await expect(sendDirectMessage(service, '@alice:matrix.org')).resolves.toBe(
+        '!pair:matrix.org',
+      );
+      expect(service.client?.createRoom).not.toHaveBeenCalled();
+      expect(service.client?.setAccountData).toHaveBeenCalledWith('m.direct', {
+        '@alice:matrix.org': ['!pair:matrix.org'],
+      });
+    });
+
+    it('should reuse a two-member room not marked is_direct without recording it', async () => {
+      const service = createService();
+      (service.client?.getRoomState as any).mockResolvedValue([]);
+
+      await expect(sendDirectMessage(service, '@alice:matrix.org')).resolves.toBe(
+        '!pair:matrix.org',
+      );
+      expect(service.client?.createRoom).not.toHaveBeenCalled();
+      expect(service.client?.setAccountData).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite m.direct when reading it failed, and read it again later', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const service = createService();
+      (service.client?.getAccountData as any).mockRejectedValue(new Error('ECONNRESET'));
+
+      await sendDirectMessage(service, '@alice:matrix.org');
+      expect(service.client?.setAccountData).not.toHaveBeenCalled();
+
+      (service.client?.getAccountData as any).mockResolvedValue({
+        '@bob:matrix.org': ['!b:matrix.org'],
+      });
+      // A failed read is not repeated for every lookup
+      await sendDirectMessage(service, '@alice:matrix.org');
+      expect(service.client?.getAccountData).toHaveBeenCalledTimes(1);
+      expect(service.client?.setAccountData).not.toHaveBeenCalled();
+
+      vi.setSystemTime(Date.now() + 60 * 1000);
+      await sendDirectMessage(service, '@alice:matrix.org');
+      expect(service.client?.getAccountData).toHaveBeenCalledTimes(2);
+      expect(service.client?.setAccountData).toHaveBeenCalledWith('m.direct', {
+        '@bob:matrix.org': ['!b:matrix.org'],
+        '@alice:matrix.org': ['!pair:matrix.org'],
+      });
+    });
+
+    it('should use m.direct from sync after a failed read', async () => {
+      const service = createService();
+      (service.client?.getAccountData as any).mockRejectedValue(new Error('ECONNRESET'));
+      await sendDirectMessage(service, '@alice:matrix.org');
+
+      accountDataListener(service)({
+        type: 'm.direct',
+        content: { '@alice:matrix.org': ['!group:matrix.org'] },
+      });
+
+      await expect(sendDirectMessage(service, '@alice:matrix.org')).resolves.toBe(
+        '!group:matrix.org',
+      );
+      expect(service.client?.getAccountData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write new DMs to m.direct and reuse them', async () => {
+      const service = createService();
+      (service.client?.getAccountData as any).mockResolvedValue({});
+      (service.client?.getJoinedRooms as any).mockResolvedValue(['!group:matrix.org']);
+
+      const roomId = await sendDirectMessage(service, '@dave:matrix.org');
+      (service.client?.getJoinedRooms as any).mockResolvedValue([
+        '!group:matrix.org',
+        '!new:matrix.org',
+      ]);
+      const again = await sendDirectMessage(service, '@dave:matrix.org');
+
+      expect(roomId).toBe('!new:matrix.org');
+      expect(again).toBe('!new:matrix.org');
+      expect(service.client?.createRoom).toHaveBeenCalledTimes(1);
+      expect(service.client?.setAccountData).toHaveBeenCalledWith('m.direct', {
+        '@dave:matrix.org': ['!new:matrix.org'],
+      });
+    });
+
+    it('should follow m.direct updates from sync', async () => {
+      const service = createService();
+      (service.client?.getAccountData as any).mockResolvedValue({});
+      expect((await service.getRoomInfo('!pair:matrix.org')).isDirect).toBe(false);
+
+      accountDataListener(service)({
+        type: 'm.direct',
+        content: { '@alice:matrix.org': ['!pair:matrix.org'] },
+      });
+
+      expect((await service.getRoomInfo('!pair:matrix.org')).isDirect).toBe(true);
+      expect(service.client?.getAccountData).toHaveBeenCalledTimes(1);
+    });
+  });
+});
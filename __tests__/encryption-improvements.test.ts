@@ -8,15 +8,15 @@ vi.mock('matrix-bot-sdk', () => ({
   MatrixClient: vi.fn().mockImplementation(() => ({
     start: vi.fn().mockResolvedValue(undefined),
     stop: vi.fn().mockResolvedValue(undefined),
-    sendMessage: vi.fn().mockResolvedValue('$event:matrix.org'),
+    doRequest: vi.fn().mockResolvedValue({ event_id: '$event:matrix.org' }),
     getUserId: vi.fn().mockResolvedValue('@bot:matrix.org'),
     getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Test User' }),
     getRoomState: vi.fn().mockResolvedValue([
       { type: 'm.room.name', content: { name: 'Test Room' } }
     ]),
-    getRoomMembers: vi.fn().mockResolvedValue([
-      { userId: '@user1:matrix.org' },
-      { userId: '@bot:matrix.org' }
+    getJoinedRoomMembers: vi.fn().mockResolvedValue([
+      '@user1:matrix.org',
+      '@bot:matrix.org'
     ]),
     getAccountData: vi.fn().mockRejectedValue(new Error('No account data')),
     on: vi.fn(),
@@ -32,12 +32,12 @@ describe('Matrix Encryption Improvements', () => {
   let mockEmitEvent: any;
   let mockEnsureConnection: any;
   let service: MatrixService;
-  let mockSendMessage: any;
+  let mockDoRequest: any;
 
   beforeEach(() => {
     mockEmitEvent = vi.fn();
     mockEnsureConnection = vi.fn();
-    mockSendMessage = vi.fn();
+    mockDoRequest = vi.fn().mockResolvedValue({ event_id: '$event:matrix.org' });
     
     mockRuntime = {
       character: { settings: {} },
@@ -64,7 +64,7 @@ describe('Matrix Encryption Improvements', () => {
 
     service = new MatrixService(mockRuntime);
     if (service.client) {
-      service.client.sendMessage = mockSendMessage;
+      service.client.doRequest = mockDoRequest;
     }
   });
 
@@ -241,8 +241,10 @@ describe('Matrix Encryption Improvements', () => {
       await callback({ text: 'Yes, I can reply!' });
 
       // Verify the response was sent
-      expect(mockSendMessage).toHaveBeenCalledWith(
-        '!room:matrix.org',
+      expect(mockDoRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/rooms/!room%3Amatrix.org/send/m.room.message/'),
+        null,
         {
           msgtype: 'm.text',
           body: 'Yes, I can reply!'
@@ -275,9 +277,11 @@ describe('Matrix Encryption Improvements', () => {
       await callback({ text: longMessage });
 
       // Verify multiple messages were sent (chunked)
-      expect(mockSendMessage).toHaveBeenCalledTimes(2); // Should be split into 2 chunks
-      expect(mockSendMessage).toHaveBeenCalledWith(
-        '!room:matrix.org',
+      expect(mockDoRequest).toHaveBeenCalledTimes(2); // Should be split into 2 chunks
+      expect(mockDoRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/rooms/!room%3Amatrix.org/send/m.room.message/'),
+        null,
         expect.objectContaining({
           msgtype: 'm.text',
           body: expect.any(String)
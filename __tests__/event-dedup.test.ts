@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SeenEventCache } from '../src/seenEvents';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService,
+  emitted,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('SeenEventCache', () => {
+  it('should report each event as new once', () => {
+    const cache = new SeenEventCache(10);
+
+    expect(cache.add('$a')).toBe(true);
+    expect(cache.add('$a')).toBe(false);
+    expect(cache.has('$a')).toBe(true);
+  });
+
+  it('should drop the oldest events when full', () => {
+    const cache = new SeenEventCache(2);
+    cache.load(['$a', '$b', '$c']);
+
+    expect(cache.has('$a')).toBe(false);
+    expect(cache.toArray()).toEqual(['$b', '$c']);
+  });
+});
+
+describe('Inbound Event Pipeline', () => {
+  let mockRuntime: MockRuntime;
+
+  const messagesReceived = () => emitted(mockRuntime, 'MESSAGE_RECEIVED');
+
+  const message = {
+    type: 'm.room.message',
+    sender: '@user:matrix.org',
+    event_id: '$message:matrix.org',
+    content: { msgtype: 'm.text', body: 'Hello there' },
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+  });
+
+  it('should emit one MESSAGE_RECEIVED for a message delivered by both listeners', async () => {
+    const service = createService(mockRuntime);
+
+    await Promise.all([
+      listener(service, 'room.message')('!room:matrix.org', message),
+      listener(service, 'room.event')('!room:matrix.org', message),
+    ]);
+
+    expect(messagesReceived()).toHaveLength(1);
+  });
+
+  it('should not process the decrypted copy of an encrypted event again', async () => {
+    const service = createService(mockRuntime);
+    const onEvent = listener(service, 'room.event');
+
+    await onEvent('!room:matrix.org', {
+      ...message,
+      type: 'm.room.encrypted',
+      content: { msgtype: 'm.text', body: 'Hello there' },
+    });
+    await onEvent('!room:matrix.org', message);
+
+    expect(messagesReceived()).toHaveLength(1);
+  });
+
+  it('should still process distinct events', async () => {
+    const service = createService(mockRuntime);
+    const onMessage = listener(service, 'room.message');
+
+    await onMessage('!room:matrix.org', message);
+    await onMessage('!room:matrix.org', { ...message, event_id: '$other:matrix.org' });
+
+    expect(messagesReceived()).toHaveLength(2);
+  });
+
+  it('should remember processed events across restarts', async () => {
+    const first = createService(mockRuntime);
+    await listener(first, 'room.message')('!room:matrix.org', message);
+    await first.stop();
+
+    expect(mockRuntime.cache.get('matrix/seen-event-ids')).toEqual(['$message:matrix.org']);
+
+    const second = createService(mockRuntime);
+    await listener(second, 'room.message')('!room:matrix.org', message);
+
+    expect(messagesReceived()).toHaveLength(1);
+  });
+});
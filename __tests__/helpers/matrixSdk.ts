@@ -0,0 +1,55 @@
+import { vi } from 'vitest';
+
+// Stand-in for matrix-bot-sdk. Test files load it with
+// vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+/**
+ * A MatrixClient whose methods are all mocks. Overrides replace single
+ * methods, for clients that need other answers from the homeserver.
+ */
+export const createMockClient = (overrides: Record<string, unknown> = {}) => ({
+  start: vi.fn().mockResolvedValue(undefined),
+  stop: vi.fn().mockResolvedValue(undefined),
+  doRequest: vi.fn().mockResolvedValue({ event_id: '$sent:matrix.org' }),
+  setTyping: vi.fn().mockResolvedValue({}),
+  sendReadReceipt: vi.fn().mockResolvedValue({}),
+  getUserId: vi.fn().mockResolvedValue('@bot:matrix.org'),
+  getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Test User' }),
+  getEvent: vi.fn().mockRejectedValue(new Error('M_NOT_FOUND')),
+  getRoomStateEvent: vi.fn().mockRejectedValue(new Error('M_NOT_FOUND')),
+  getRoomState: vi.fn().mockResolvedValue([]),
+  getJoinedRooms: vi.fn().mockResolvedValue([]),
+  getJoinedRoomMembers: vi
+    .fn()
+    .mockResolvedValue(['@user:matrix.org', '@bot:matrix.org', '@user2:matrix.org']),
+  getAccountData: vi.fn().mockRejectedValue(new Error('No account data')),
+  setAccountData: vi.fn().mockResolvedValue({}),
+  createRoom: vi.fn().mockResolvedValue('!new:matrix.org'),
+  joinRoom: vi.fn().mockImplementation(async (roomId: string) => roomId),
+  leaveRoom: vi.fn().mockResolvedValue({}),
+  resolveRoom: vi
+    .fn()
+    .mockImplementation(async (room: string) =>
+      room.startsWith('#') ? `!${room.slice(1)}` : room,
+    ),
+  userHasPowerLevelForAction: vi.fn().mockResolvedValue(false),
+  mxcToHttp: vi.fn().mockReturnValue('https://matrix.org/media/image'),
+  on: vi.fn(),
+  ...overrides,
+});
+
+export const MatrixClient = vi.fn().mockImplementation(() => createMockClient());
+
+export const SimpleFsStorageProvider = vi.fn();
+
+export const RustSdkCryptoStorageProvider = vi.fn();
+
+export const EncryptedRoomEvent = vi.fn().mockImplementation((raw: unknown) => ({ raw }));
+
+export const AutojoinRoomsMixin = {
+  setupOnClient: vi.fn(),
+};
+
+export const PowerLevelAction = {
+  RedactEvents: 'redact',
+};
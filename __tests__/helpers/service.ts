@@ -0,0 +1,91 @@
+import { vi } from 'vitest';
+import { MatrixClient } from 'matrix-bot-sdk';
+import { MatrixService } from '../../src/service';
+import { createMockClient } from './matrixSdk';
+
+/**
+ * A runtime with the Matrix connection settings, an in-memory cache and
+ * mocked memory, event and logger methods. Overrides replace single fields.
+ */
+export const createMockRuntime = (
+  settings: Record<string, string> = {},
+  overrides: Record<string, unknown> = {},
+) => {
+  const cache = new Map<string, unknown>();
+  const env: Record<string, string> = {
+    MATRIX_HOMESERVER_URL: 'https://matrix.org',
+    MATRIX_ACCESS_TOKEN: 'syt_test_token',
+    MATRIX_USER_ID: '@bot:matrix.org',
+    ...settings,
+  };
+  return {
+    character: { name: 'Eliza', settings: {} as Record<string, unknown> },
+    agentId: 'test-agent-id',
+    cache,
+    getSetting: vi.fn((key: string) => env[key]),
+    getCache: vi.fn(async (key: string) => cache.get(key)),
+    setCache: vi.fn(async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    }),
+    registerSendHandler: vi.fn(),
+    emitEvent: vi.fn(),
+    ensureConnection: vi.fn(),
+    createMemory: vi.fn(),
+    getMemoryById: vi.fn().mockResolvedValue(null),
+    updateMemory: vi.fn().mockResolvedValue(true),
+    deleteMemory: vi.fn().mockResolvedValue(undefined),
+    useModel: vi.fn(),
+    getService: vi.fn().mockReturnValue(null),
+    logger: {
+      error: vi.fn(),
+      warn: vi.fn(),
+      info: vi.fn(),
+      success: vi.fn(),
+      debug: vi.fn(),
+    },
+    ...overrides,
+  };
+};
+
+export type MockRuntime = ReturnType<typeof createMockRuntime>;
+
+/**
+ * Create a service with the given character.settings.matrix, on a mock
+ * client with the given method overrides
+ */
+export const createService = (
+  runtime: MockRuntime,
+  matrixSettings: Record<string, unknown> = {},
+  client: Record<string, unknown> = {},
+) => {
+  runtime.character.settings = { matrix: matrixSettings };
+  vi.mocked(MatrixClient).mockImplementation(() => createMockClient(client) as any);
+  return new MatrixService(runtime as any);
+};
+
+/**
+ * The listener the service registered on its client for an event, such as
+ * room.message or room.event
+ */
+export const listener = (service: MatrixService, name: string) =>
+  (service.client?.on as any).mock.calls.find(([event]: [string]) => event === name)[1];
+
+/**
+ * Payloads of the events the runtime emitted under a name
+ */
+export const emitted = (runtime: MockRuntime, name: string) =>
+  runtime.emitEvent.mock.calls
+    .filter(([events]: [string[]]) => events.includes(name))
+    .map(([, payload]: [string[], any]) => payload);
+
+/**
+ * Messages the service sent, as [roomId, content]
+ */
+export const sentMessages = (service: MatrixService) =>
+  (service.client?.doRequest as any).mock.calls
+    .filter(([method, path]: [string, string]) => method === 'PUT' && path.includes('/send/'))
+    .map(([, path, , content]: [string, string, unknown, unknown]) => [
+      decodeURIComponent(path.split('/')[5]),
+      content,
+    ]);
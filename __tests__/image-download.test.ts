@@ -10,7 +10,7 @@ vi.mock('matrix-bot-sdk', () => ({
     stop: vi.fn().mockResolvedValue(undefined),
     sendMessage: vi.fn().mockResolvedValue('$event:matrix.org'),
     getRoomState: vi.fn().mockResolvedValue([]),
-    getRoomMembers: vi.fn().mockResolvedValue(['@user1:matrix.org', '@bot:matrix.org']),
+    getJoinedRoomMembers: vi.fn().mockResolvedValue(['@user1:matrix.org', '@bot:matrix.org']),
     getUserId: vi.fn().mockResolvedValue('@bot:matrix.org'),
     getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Test User' }),
     mxcToHttp: vi.fn().mockReturnValue('https://matrix.org/_matrix/media/v3/download/matrix.org/abc123'),
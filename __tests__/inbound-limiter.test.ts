@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InboundLimiter } from '../src/inboundLimiter';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const message = (eventId: string, sender = '@user:matrix.org') => ({
+  type: 'm.room.message',
+  sender,
+  event_id: eventId,
+  content: { msgtype: 'm.text', body: 'Hello' },
+});
+
+describe('Inbound Limiter', () => {
+  describe('InboundLimiter', () => {
+    let now: number;
+    const budgets = {
+      sender: { burst: 2, perMinute: 6 },
+      room: { burst: 3, perMinute: 60 },
+    };
+
+    const createLimiter = () =>
+      new InboundLimiter({ maxQueuedPerRoom: 2, maxViolations: 10, now: () => now });
+
+    beforeEach(() => {
+      now = 0;
+    });
+
+    it('should let bursts through and refill over time', () => {
+      const limiter = createLimiter();
+
+      expect(limiter.take('!a:matrix.org', '@user:matrix.org', budgets)).toBeNull();
+      expect(limiter.take('!a:matrix.org', '@user:matrix.org', budgets)).toBeNull();
+      expect(limiter.take('!a:matrix.org', '@user:matrix.org', budgets)).toBe('sender');
+      expect(limiter.take('!a:matrix.org', '@other:matrix.org', budgets)).toBeNull();
+      expect(limiter.take('!a:matrix.org', '@third:matrix.org', budgets)).toBe('room');
+
+      now = 10000;
+      expect(limiter.take('!a:matrix.org', '@user:matrix.org', budgets)).toBeNull();
+    });
+
+    it('should record one violation per episode', () => {
+      const limiter = createLimiter();
+
+      expect(limiter.recordViolation('!a:matrix.org', '@user:matrix.org', 'sender').isNew).toBe(
+        true,
+      );
+      now = 1000;
+      expect(limiter.recordViolation('!a:matrix.org', '@user:matrix.org', 'sender').isNew).toBe(
+        false,
+      );
+      expect(limiter.getViolations()).toEqual([
+        {
+          roomId: '!a:matrix.org',
+          userId: '@user:matrix.org',
+          scope: 'sender',
+          count: 2,
+          firstAt: 0,
+          lastAt: 1000,
+        },
+      ]);
+
+      // Getting through again ends the episode
+      limiter.take('!a:matrix.org', '@user:matrix.org', budgets);
+      expect(limiter.recordViolation('!a:matrix.org', '@user:matrix.org', 'sender').isNew).toBe(
+        true,
+      );
+      expect(limiter.getViolations()).toHaveLength(2);
+    });
+
+    describe('wait', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should hold messages back in order until the budget allows them', async () => {
+        const limiter = new InboundLimiter({ maxQueuedPerRoom: 2, maxViolations: 10 });
+        const budget = { sender: { burst: 1, perMinute: 60 } };
+        limiter.take('!a:matrix.org', '@user:matrix.org', budget);
+
+        const admitted: string[] = [];
+        const first = limiter
+          .wait('!a:matrix.org', '@user:matrix.org', budget)
+          .then(() => admitted.push('first'));
+        const second = limiter
+          .wait('!a:matrix.org', '@user:matrix.org', budget)
+          .then(() => admitted.push('second'));
+        await expect(limiter.wait('!a:matrix.org', '@user:matrix.org', budget)).resolves.toBe(
+          false,
+        );
+        // Newcomers wait behind the line
+        expect(limiter.take('!a:matrix.org', '@other:matrix.org', budget)).toBe('room');
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(admitted).toEqual(['first']);
+        await vi.advanceTimersByTimeAsync(1000);
+        await Promise.all([first, second]);
+        expect(admitted).toEqual(['first', 'second']);
+      });
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    const createService = (settings: Record<string, unknown>) =>
+      createMatrixService(mockRuntime, settings);
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should drop messages over the sender budget and record the violation', async () => {
+      const service = createService({ inboundLimits: { sender: { burst: 2, perMinute: 1 } } });
+      const onMessage = listener(service, 'room.message');
+
+      for (const eventId of ['$1:matrix.org', '$2:matrix.org', '$3:matrix.org', '$4:matrix.org']) {
+        await onMessage('!room:matrix.org', message(eventId));
+      }
+      await onMessage('!room:matrix.org', message('$5:matrix.org', '@user2:matrix.org'));
+
+      expect(emitted(mockRuntime, 'MESSAGE_RECEIVED')).toHaveLength(3);
+      expect(emitted(mockRuntime, 'MATRIX_FLOOD_DETECTED')).toEqual([
+        expect.objectContaining({
+          roomId: '!room:matrix.org',
+          userId: '@user:matrix.org',
+          scope: 'sender',
+          action: 'drop',
+        }),
+      ]);
+      expect(service.getFloodViolations()).toEqual([
+        expect.objectContaining({ userId: '@user:matrix.org', count: 2 }),
+      ]);
+      expect(sentMessages(service)).toEqual([]);
+    });
+
+    it('should apply room profile budgets and send the cooldown notice once', async () => {
+      const service = createService({
+        floodAction: 'notify',
+        rooms: {
+          '!room:matrix.org': { inboundLimits: { room: { burst: 1, perMinute: 1 } } },
+        },
+      });
+      const onMessage = listener(service, 'room.message');
+
+      for (const eventId of ['$1:matrix.org', '$2:matrix.org', '$3:matrix.org']) {
+        await onMessage('!room:matrix.org', message(eventId));
+      }
+      await onMessage('!other:matrix.org', message('$4:matrix.org'));
+
+      expect(emitted(mockRuntime, 'MESSAGE_RECEIVED')).toHaveLength(2);
+      expect(sentMessages(service)).toEqual([
+        [
+          '!room:matrix.org',
+          expect.objectContaining({
+            msgtype: 'm.notice',
+            body: expect.stringContaining('@user:matrix.org, you are sending messages'),
+          }),
+        ],
+      ]);
+    });
+  });
+});
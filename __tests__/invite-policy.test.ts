@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { evaluateInvite } from '../src/invites';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const invite = (sender: string, isDirect = false) => ({
+  type: 'm.room.member',
+  sender,
+  state_key: '@bot:matrix.org',
+  content: { membership: 'invite', ...(isDirect ? { is_direct: true } : {}) },
+});
+
+describe('Invite Policy', () => {
+  describe('evaluateInvite', () => {
+    const request = { roomId: '!room:example.org', inviter: '@alice:example.org', isDirect: false };
+    const context = { isRoomAllowed: false, joinedRoomCount: 3 };
+
+    it('should accept invites matching any rule', () => {
+      expect(
+        evaluateInvite(
+          request,
+          { rules: ['direct', 'allowlist'], allowlist: ['example.org'], askOperator: false },
+          context,
+        ),
+      ).toEqual({ action: 'accept', rule: 'allowlist' });
+      expect(
+        evaluateInvite(
+          { ...request, isDirect: true },
+          { rules: ['direct'], allowlist: [], askOperator: false },
+          context,
+        ),
+      ).toEqual({ action: 'accept', rule: 'direct' });
+    });
+
+    it('should ask the operator or reject when no rule matches', () => {
+      const options = { rules: ['allowed-rooms' as const], allowlist: [] };
+
+      expect(evaluateInvite(request, { ...options, askOperator: true }, context)).toEqual({
+        action: 'ask',
+      });
+      expect(evaluateInvite(request, { ...options, askOperator: false }, context)).toEqual({
+        action: 'reject',
+        reason: 'no invite rule matched',
+      });
+    });
+
+    it('should reject invites past the room cap', () => {
+      expect(
+        evaluateInvite(
+          request,
+          { rules: ['any'], allowlist: [], maxJoinedRooms: 3, askOperator: true },
+          context,
+        ),
+      ).toEqual({ action: 'reject', reason: 'already in 3 rooms (limit 3)' });
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    // Joined to one room and a DM with the operator, which m.direct lists
+    const createService = (matrixSettings: Record<string, unknown> = {}) =>
+      createMatrixService(mockRuntime, matrixSettings, {
+        doRequest: vi.fn().mockResolvedValue({ event_id: '$question:matrix.org' }),
+        getJoinedRooms: vi.fn().mockResolvedValue(['!joined:matrix.org', '!admin-dm:matrix.org']),
+        getJoinedRoomMembers: vi.fn().mockResolvedValue(['@bot:matrix.org', '@carol:matrix.org']),
+        getAccountData: vi
+          .fn()
+          .mockResolvedValue({ '@admin:matrix.org': ['!admin-dm:matrix.org'] }),
+      });
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should only join allowlisted rooms when MATRIX_ROOM_IDS is set', async () => {
+      mockRuntime = createMockRuntime({ MATRIX_ROOM_IDS: '!listed:matrix.org' });
+      const service = createService();
+      const onInvite = listener(service, 'room.invite');
+
+      await onInvite('!listed:matrix.org', invite('@alice:matrix.org'));
+      await onInvite('!other:matrix.org', invite('@alice:matrix.org'));
+
+      expect(service.client?.joinRoom).toHaveBeenCalledTimes(1);
+      expect(service.client?.joinRoom).toHaveBeenCalledWith('!listed:matrix.org');
+      expect(service.client?.leaveRoom).toHaveBeenCalledWith('!other:matrix.org');
+      expect(service.getRejectedInvites()).toEqual([
+        expect.objectContaining({
+          roomId: '!other:matrix.org',
+          inviter: '@alice:matrix.org',
+          reason: 'no invite rule matched',
+        }),
+      ]);
+    });
+
+    it('should record accepted DM invites in m.direct', async () => {
+      const service = createService({ inviteRules: ['direct'] });
+
+      await listener(service, 'room.invite')('!dm:matrix.org', invite('@alice:matrix.org', true));
+
+      expect(service.client?.joinRoom).toHaveBeenCalledWith('!dm:matrix.org');
+      expect(service.client?.setAccountData).toHaveBeenCalledWith('m.direct', {
+        '@admin:matrix.org': ['!admin-dm:matrix.org'],
+        '@alice:matrix.org': ['!dm:matrix.org'],
+      });
+    });
+
+    it('should join once the operator approves', async () => {
+      const service = createService({
+        inviteRules: ['allowlist'],
+        inviteAllowlist: ['@carol:matrix.org'],
+        inviteOperator: '@admin:matrix.org',
+      });
+
+      await listener(service, 'room.invite')('!room:matrix.org', invite('@mallory:evil.org'));
+
+      const doRequest = service.client?.doRequest as any;
+      expect(doRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/rooms/!admin-dm%3Amatrix.org/send/m.room.message/'),
+        null,
+        expect.objectContaining({
+          msgtype: 'm.notice',
+          body: expect.stringContaining('@mallory:evil.org invited me to room !room:matrix.org'),
+        }),
+      );
+      expect(service.client?.joinRoom).not.toHaveBeenCalled();
+
+      const onEvent = listener(service, 'room.event');
+      const reaction = (sender: string, eventId: string) => ({
+        type: 'm.reaction',
+        sender,
+        event_id: eventId,
+        content: {
+          'm.relates_to': {
+            rel_type: 'm.annotation',
+            event_id: '$question:matrix.org',
+            key: '👍️',
+          },
+        },
+      });
+      await onEvent('!admin-dm:matrix.org', reaction('@mallory:evil.org', '$r1:matrix.org'));
+      expect(service.client?.joinRoom).not.toHaveBeenCalled();
+
+      await onEvent('!admin-dm:matrix.org', reaction('@admin:matrix.org', '$r2:matrix.org'));
+      expect(service.client?.joinRoom).toHaveBeenCalledWith('!room:matrix.org');
+    });
+
+    it('should reject invites the operator does not answer', async () => {
+      vi.useFakeTimers();
+      const service = createService({
+        inviteRules: [],
+        inviteOperator: '@admin:matrix.org',
+        inviteApprovalTimeoutMs: 60000,
+      });
+
+      await listener(service, 'room.invite')('!room:matrix.org', invite('@alice:matrix.org'));
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(service.client?.leaveRoom).toHaveBeenCalledWith('!room:matrix.org');
+      expect(service.getRejectedInvites()[0].reason).toBe('@admin:matrix.org did not answer');
+    });
+
+    it('should keep pending invites across restarts', async () => {
+      vi.useFakeTimers();
+      const cache = mockRuntime.cache;
+      const inviteSettings = {
+        inviteRules: [],
+        inviteOperator: '@admin:matrix.org',
+        inviteApprovalTimeoutMs: 60000,
+      };
+
+      const first = createService(inviteSettings);
+      await listener(first, 'room.invite')('!room:matrix.org', invite('@alice:matrix.org'));
+      expect(cache.get('matrix/pending-invites')).toEqual({
+        '$question:matrix.org': {
+          roomId: '!room:matrix.org',
+          inviter: '@alice:matrix.org',
+          isDirect: false,
+          operator: '@admin:matrix.org',
+          expiresAt: Date.now() + 60000,
+        },
+      });
+      await first.stop();
+
+      // The restarted service still rejects the invite when it expires
+      await vi.advanceTimersByTimeAsync(30000);
+      const second = createService(inviteSettings);
+      await vi.advanceTimersByTimeAsync(29999);
+      expect(second.client?.leaveRoom).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(second.client?.leaveRoom).toHaveBeenCalledWith('!room:matrix.org');
+      expect(cache.get('matrix/pending-invites')).toEqual({});
+    });
+
+    it('should let the operator answer invites asked before a restart', async () => {
+      mockRuntime.cache.set('matrix/pending-invites', {
+        '$question:matrix.org': {
+          roomId: '!room:matrix.org',
+          inviter: '@alice:matrix.org',
+          isDirect: false,
+          operator: '@admin:matrix.org',
+          expiresAt: Date.now() + 60000,
+        },
+      });
+      const service = createService({ inviteRules: [], inviteOperator: '@admin:matrix.org' });
+
+      await listener(service, 'room.event')('!admin-dm:matrix.org', {
+        type: 'm.reaction',
+        sender: '@admin:matrix.org',
+        event_id: '$r1:matrix.org',
+        content: {
+          'm.relates_to': { rel_type: 'm.annotation', event_id: '$question:matrix.org', key: '👍' },
+        },
+      });
+
+      expect(service.client?.joinRoom).toHaveBeenCalledWith('!room:matrix.org');
+      await service.stop();
+    });
+  });
+});
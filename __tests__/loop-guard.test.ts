@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { LoopGuard, type LoopGuardMessage } from '../src/loopGuard';
+import { MatrixEventTypes } from '../src/types';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('LoopGuard', () => {
+  let now: number;
+  let guard: LoopGuard;
+  let responses: number;
+
+  const bot = { senderId: '@other-bot:matrix.org', senderIsBot: true };
+
+  const exchange = (message: LoopGuardMessage = bot, roomId = '!room:matrix.org') => {
+    const allowed = guard.recordInbound(roomId, message);
+    return allowed ? guard.recordResponse(roomId, [`$response${++responses}`]) : null;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    responses = 0;
+    guard = new LoopGuard({
+      maxExchanges: 3,
+      windowMs: 60000,
+      maxReplyDepth: 6,
+      cooldownMs: 300000,
+      now: () => now,
+    });
+  });
+
+  it('should trip after too many exchanges with bots', () => {
+    expect(exchange()).toBeNull();
+    expect(exchange()).toBeNull();
+    expect(exchange()).toEqual({ userId: '@other-bot:matrix.org', reason: 'exchanges' });
+
+    expect(guard.isTripped('!room:matrix.org')).toBe(true);
+    expect(guard.recordInbound('!room:matrix.org', bot)).toBe(false);
+    expect(guard.isTripped('!other:matrix.org')).toBe(false);
+  });
+
+  it('should never trip on senders the classifier does not flag', () => {
+    const human = { senderId: '@user:matrix.org', senderIsBot: false };
+    const trips = [];
+    let parentEventId: string | undefined;
+    for (let i = 0; i < 30; i++) {
+      trips.push(exchange({ ...human, parentEventId }));
+      parentEventId = `$response${responses}`;
+    }
+
+    expect(trips.every((trip) => trip === null)).toBe(true);
+    expect(guard.isTripped('!room:matrix.org')).toBe(false);
+    expect(guard.recordInbound('!room:matrix.org', human)).toBe(true);
+  });
+
+  it('should reset the chain when someone else speaks', () => {
+    exchange();
+    exchange();
+    guard.recordInbound('!room:matrix.org', { senderId: '@user:matrix.org', senderIsBot: false });
+
+    expect(exchange()).toBeNull();
+    expect(guard.getExchangeCount('!room:matrix.org')).toBe(1);
+  });
+
+  it('should trip on a deep reply chain, however slow', () => {
+    let parentEventId: string | undefined;
+    const trips = [];
+    for (let i = 0; i < 3; i++) {
+      now += 60000;
+      trips.push(exchange({ ...bot, parentEventId }));
+      parentEventId = `$response${responses}`;
+    }
+
+    expect(trips).toEqual([null, null, { userId: '@other-bot:matrix.org', reason: 'reply-depth' }]);
+    now += 60000;
+    expect(guard.recordInbound('!room:matrix.org', { ...bot, parentEventId })).toBe(false);
+  });
+
+  it('should only count exchanges within the window', () => {
+    exchange();
+    exchange();
+    now += 60000;
+
+    expect(exchange()).toBeNull();
+    expect(guard.getExchangeCount('!room:matrix.org')).toBe(1);
+  });
+
+  it('should reset after the cooldown', () => {
+    exchange();
+    exchange();
+    exchange();
+    now += 300000;
+
+    expect(guard.isTripped('!room:matrix.org')).toBe(false);
+    expect(guard.recordInbound('!room:matrix.org', bot)).toBe(true);
+  });
+});
+
+describe('Matrix Loop Guard', () => {
+  let mockRuntime: MockRuntime;
+  let messageCount: number;
+
+  const createService = (matrixSettings: Record<string, unknown> = {}) =>
+    createMatrixService(
+      mockRuntime,
+      { loopGuardMaxExchanges: 2, ...matrixSettings },
+      { getUserId: vi.fn().mockResolvedValue('@eliza:matrix.org') },
+    );
+
+  const receive = async (
+    service: MatrixService,
+    sender: string,
+    relatesTo?: Record<string, unknown>,
+    roomId = '!room:matrix.org',
+  ) => {
+    await listener(service, 'room.message')(roomId, {
+      type: 'm.room.message',
+      sender,
+      event_id: `$message${++messageCount}:matrix.org`,
+      content: {
+        msgtype: 'm.text',
+        body: 'Hello there',
+        ...(relatesTo ? { 'm.relates_to': relatesTo } : {}),
+      },
+    });
+    return emitted(mockRuntime, 'MESSAGE_RECEIVED').at(-1);
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime({ MATRIX_USER_ID: '@eliza:matrix.org' });
+    messageCount = 0;
+  });
+
+  it('should stop answering a bot that keeps replying', async () => {
+    const service = createService({ loopGuardNotice: 'Pausing replies to bots here.' });
+
+    for (let i = 0; i < 2; i++) {
+      const payload = await receive(service, '@other-bot:matrix.org');
+      expect(payload.message.content.metadata.observeOnly).toBe(false);
+      await payload.callback({ text: `Reply ${i}` });
+    }
+
+    expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+      [MatrixEventTypes.LOOP_DETECTED],
+      expect.objectContaining({
+        roomId: '!room:matrix.org',
+        userId: '@other-bot:matrix.org',
+        cooldownMs: 600000,
+      }),
+    );
+    await vi.waitFor(() =>
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.notice',
+          body: 'Pausing replies to bots here.',
+        },
+      ]),
+    );
+
+    mockRuntime.emitEvent.mockClear();
+    expect(await receive(service, '@other-bot:matrix.org')).toBeUndefined();
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+
+    const human = await receive(service, '@user:matrix.org');
+    expect(human.message.content.metadata.observeOnly).toBe(false);
+  });
+
+  it('should leave bots alone when disabled', async () => {
+    const service = createService({ loopGuardEnabled: false });
+
+    for (let i = 0; i < 3; i++) {
+      const payload = await receive(service, '@other-bot:matrix.org');
+      expect(payload.message.content.metadata.observeOnly).toBe(false);
+      await payload.callback({ text: `Reply ${i}` });
+    }
+
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalledWith(
+      [MatrixEventTypes.LOOP_DETECTED],
+      expect.anything(),
+    );
+  });
+
+  it('should keep answering people however fast and deep they talk', async () => {
+    const service = createService();
+    let replyCount = 0;
+    (service.client?.doRequest as any).mockImplementation(async () => ({
+      event_id: `$reply${++replyCount}:matrix.org`,
+    }));
+
+    // A quick back and forth in a DM
+    for (let i = 0; i < 20; i++) {
+      const payload = await receive(service, '@user:matrix.org', undefined, '!dm:matrix.org');
+      expect(payload.message.content.metadata.observeOnly).toBe(false);
+      await payload.callback({ text: `Reply ${i}` });
+    }
+
+    // A long thread, each message falling back to the bot's last reply
+    for (let i = 0; i < 30; i++) {
+      const payload = await receive(service, '@user:matrix.org', {
+        rel_type: 'm.thread',
+        event_id: '$root:matrix.org',
+        is_falling_back: true,
+        'm.in_reply_to': { event_id: `$reply${replyCount}:matrix.org` },
+      });
+      expect(payload.message.content.metadata.observeOnly).toBe(false);
+      await payload.callback({ text: `Thread reply ${i}` });
+    }
+
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalledWith(
+      [MatrixEventTypes.LOOP_DETECTED],
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  renderMarkdown,
+  splitMarkdown,
+  normalizeInboundText,
+  stripReplyFallback,
+  MATRIX_HTML_FORMAT,
+} from '../src/formatting';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Markdown Rendering', () => {
+  it('should leave plain text without a formatted body', () => {
+    expect(renderMarkdown('Hello, world!')).toEqual({ body: 'Hello, world!' });
+    expect(renderMarkdown('line one\nline two')).toEqual({
+      body: 'line one\nline two',
+    });
+  });
+
+  it('should render emphasis, code and lists as HTML', () => {
+    const result = renderMarkdown('**bold** and `code`\n\n- one\n- two');
+
+    expect(result.body).toBe('**bold** and `code`\n\n- one\n- two');
+    expect(result.format).toBe(MATRIX_HTML_FORMAT);
+    expect(result.formatted_body).toContain('<strong>bold</strong>');
+    expect(result.formatted_body).toContain('<code>code</code>');
+    expect(result.formatted_body).toContain('<li>one</li>');
+  });
+
+  it('should render fenced code blocks with a language class', () => {
+    const result = renderMarkdown('```ts\nconst a = 1;\n```');
+    expect(result.formatted_body).toContain('<pre><code class="language-ts">const a = 1;');
+  });
+
+  it('should render tables', () => {
+    const result = renderMarkdown('| a | b |\n|---|---|\n| 1 | 2 |');
+    expect(result.formatted_body).toContain('<table>');
+    expect(result.formatted_body).toContain('<td>1</td>');
+  });
+
+  it('should render spoilers and hide them in the plain body', () => {
+    const result = renderMarkdown('the answer is ||42||');
+    expect(result.body).toBe('the answer is [Spoiler]');
+    expect(result.formatted_body).toContain('<span data-mx-spoiler>42</span>');
+  });
+
+  it('should escape raw HTML and drop unsafe links', () => {
+    const html = renderMarkdown('<script>alert(1)</script>');
+    expect(html.formatted_body).not.toContain('<script>');
+
+    const links = renderMarkdown('[bad](javascript:alert(1)) and [good](https://matrix.org)');
+    expect(links.formatted_body).not.toContain('javascript:');
+    expect(links.formatted_body).toContain('<a href="https://matrix.org">good</a>');
+  });
+});
+
+describe('Markdown Splitting', () => {
+  const lines = (count: number, line: (i: number) => string) =>
+    Array.from({ length: count }, (_, i) => line(i)).join('\n');
+
+  it('should keep short messages whole', () => {
+    expect(splitMarkdown('Hello, world!', 100)).toEqual(['Hello, world!']);
+  });
+
+  it('should split between blocks', () => {
+    const first = 'a'.repeat(60);
+    const second = 'b'.repeat(60);
+
+    expect(splitMarkdown(`${first}\n\n${second}`, 100)).toEqual([first, second]);
+  });
+
+  it('should close and reopen code fences', () => {
+    const code = `\`\`\`ts\n${lines(30, (i) => `const value${i} = ${i};`)}\n\`\`\``;
+    const chunks = splitMarkdown(`Here it is:\n\n${code}`, 200);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0]).toBe('Here it is:');
+    for (const chunk of chunks.slice(1)) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+      expect(chunk.startsWith('```ts\n')).toBe(true);
+      expect(chunk.endsWith('\n```')).toBe(true);
+      expect(renderMarkdown(chunk).formatted_body).toMatch(
+        /^<pre><code[^>]*>[^<]*<\/code><\/pre>$/,
+      );
+    }
+  });
+
+  it('should repeat table headers', () => {
+    const table = `| n | name |\n|---|---|\n${lines(20, (i) => `| ${i} | row ${i} |`)}`;
+    const chunks = splitMarkdown(table, 150);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(150);
+      expect(chunk.startsWith('| n | name |\n|---|---|\n')).toBe(true);
+      expect(renderMarkdown(chunk).formatted_body).toMatch(/^<table>/);
+    }
+  });
+
+  it('should split lists between items', () => {
+    const list = lines(20, (i) => `${i + 1}. item number ${i + 1}`);
+    const chunks = splitMarkdown(`${list}\n\nDone.`, 150);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('\n').replace(/\n+/g, '\n')).toBe(`${list}\nDone.`);
+    expect(renderMarkdown(chunks[1]).formatted_body).toMatch(/^<ol start="\d+">/);
+  });
+
+  it('should cut lines longer than a message', () => {
+    const chunks = splitMarkdown('x'.repeat(250), 100);
+
+    expect(chunks.join('')).toBe('x'.repeat(250));
+    expect(chunks.every((chunk) => chunk.length <= 100)).toBe(true);
+  });
+});
+
+describe('Inbound Message Normalization', () => {
+  it('should use the plain body when there is no HTML', () => {
+    expect(normalizeInboundText({ body: 'just text' })).toEqual({
+      text: 'just text',
+    });
+  });
+
+  it('should convert formatted_body HTML to Markdown', () => {
+    const html =
+      '<p><strong>bold</strong> <em>it</em> <del>gone</del> <span data-mx-spoiler>s</span></p>' +
+      '<ul><li>one</li><li>two</li></ul><pre><code class="language-js">x = 1\n</code></pre>';
+    const result = normalizeInboundText({
+      body: 'fallback',
+      format: MATRIX_HTML_FORMAT,
+      formatted_body: html,
+    });
+
+    expect(result.text).toContain('**bold** *it* ~~gone~~ ||s||');
+    expect(result.text).toMatch(/-\s+one\n-\s+two/);
+    expect(result.text).toContain('```js\nx = 1\n```');
+    expect(result.html).toBe(html);
+  });
+
+  it('should convert tables to Markdown tables', () => {
+    const result = normalizeInboundText({
+      body: 'table',
+      format: MATRIX_HTML_FORMAT,
+      formatted_body:
+        '<table><thead><tr><th>a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>',
+    });
+    expect(result.text).toBe('| a | b |\n| --- | --- |\n| 1 | 2 |');
+  });
+
+  it('should strip reply fallbacks from replies', () => {
+    const result = normalizeInboundText({
+      body: '> <@alice:matrix.org> original\n> second line\n\nmy answer',
+      format: MATRIX_HTML_FORMAT,
+      formatted_body:
+        '<mx-reply><blockquote><a href="https://matrix.to/#/$x">In reply to</a> original</blockquote></mx-reply>my <b>answer</b>',
+      'm.relates_to': { 'm.in_reply_to': { event_id: '$x' } },
+    });
+
+    expect(result.text).toBe('my **answer**');
+    expect(result.html).toBe('my <b>answer</b>');
+  });
+
+  it('should strip plaintext fallbacks only from replies', () => {
+    expect(stripReplyFallback('> <@a:b> quoted\n\nanswer')).toBe('answer');
+    expect(normalizeInboundText({ body: '> a real quote\n\nmy comment' }).text).toBe(
+      '> a real quote\n\nmy comment',
+    );
+  });
+});
+
+describe('Formatted Message Sending', () => {
+  let mockRuntime: MockRuntime;
+
+  const createService = (matrixSettings: Record<string, unknown> = {}) =>
+    createMatrixService(mockRuntime, matrixSettings);
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+  });
+
+  it('should send Markdown replies with a formatted body', async () => {
+    const service = createService();
+
+    await service.sendTextMessage('!room:matrix.org', 'Use `npm test`');
+
+    expect(sentMessages(service)).toContainEqual([
+      '!room:matrix.org',
+      {
+        msgtype: 'm.text',
+        body: 'Use `npm test`',
+        format: MATRIX_HTML_FORMAT,
+        formatted_body: '<p>Use <code>npm test</code></p>',
+      },
+    ]);
+  });
+
+  it('should send long code blocks as several well-formed messages', async () => {
+    const service = createService();
+    const code = `\`\`\`\n${'console.log(1);\n'.repeat(2000)}\`\`\``;
+
+    await service.sendTextMessage('!room:matrix.org', code);
+
+    const messages = sentMessages(service);
+    expect(messages.length).toBeGreaterThan(1);
+    for (const [, content] of messages) {
+      expect(content.body.length).toBeLessThanOrEqual(4096);
+      expect(content.formatted_body).toMatch(/^<pre><code>/);
+    }
+  });
+
+  it('should send plain text to rooms with formatting disabled', async () => {
+    const service = createService({ plainTextRoomIds: ['!plain:matrix.org'] });
+
+    await service.sendTextMessage('!plain:matrix.org', 'Use `npm test`');
+
+    expect(sentMessages(service)).toContainEqual([
+      '!plain:matrix.org',
+      {
+        msgtype: 'm.text',
+        body: 'Use `npm test`',
+      },
+    ]);
+  });
+
+  it('should send plain text everywhere when rendering is turned off', async () => {
+    const service = createService({ renderMarkdown: false });
+
+    await service.handleSendMessage(
+      mockRuntime,
+      { source: 'matrix', channelId: '!room:matrix.org' } as any,
+      { text: '**hi**' },
+    );
+
+    expect(sentMessages(service)).toContainEqual([
+      '!room:matrix.org',
+      {
+        msgtype: 'm.text',
+        body: '**hi**',
+      },
+    ]);
+  });
+});
@@ -29,13 +29,15 @@ describe('Matrix Plugin', () => {
       expect(matrixPlugin.name).toBe('matrix');
       expect(matrixPlugin.description).toContain('Matrix protocol plugin');
       expect(matrixPlugin.services).toHaveLength(1);
-      expect(matrixPlugin.actions).toHaveLength(9);
+      expect(matrixPlugin.actions).toHaveLength(14);
       expect(matrixPlugin.providers).toHaveLength(2);
     });
 
     it('should have all required actions', () => {
       const actionNames = matrixPlugin.actions.map(action => action.name);
       expect(actionNames).toContain('SEND_MESSAGE');
+      expect(actionNames).toContain('EDIT_MESSAGE');
+      expect(actionNames).toContain('REDACT_MESSAGE');
       expect(actionNames).toContain('REACT_TO_MESSAGE');
       expect(actionNames).toContain('JOIN_ROOM');
       expect(actionNames).toContain('LEAVE_ROOM');
@@ -43,6 +45,9 @@ describe('Matrix Plugin', () => {
       expect(actionNames).toContain('DOWNLOAD_MEDIA');
       expect(actionNames).toContain('ENABLE_ENCRYPTION');
       expect(actionNames).toContain('LIST_ROOMS');
+      expect(actionNames).toContain('BACKFILL_ROOM');
+      expect(actionNames).toContain('ALLOW_ROOM');
+      expect(actionNames).toContain('DISALLOW_ROOM');
     });
 
     it('should have required providers', () => {
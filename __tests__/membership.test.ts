@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { classifyMembership } from '../src/membership';
+import { type MockRuntime, createMockRuntime, createService, listener } from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+let eventCount = 0;
+
+const memberEvent = (
+  content: Record<string, unknown>,
+  prevContent?: Record<string, unknown>,
+  sender = '@user:matrix.org',
+) => ({
+  type: 'm.room.member',
+  state_key: '@user:matrix.org',
+  sender,
+  event_id: `$member${++eventCount}:matrix.org`,
+  content,
+  ...(prevContent ? { unsigned: { prev_content: prevContent } } : {}),
+});
+
+describe('Membership', () => {
+  describe('classifyMembership', () => {
+    it('should tell joins, leaves, kicks and bans apart', () => {
+      const joined = { membership: 'join' };
+      const transition = (event: object) => classifyMembership(event)?.transition;
+
+      expect(transition(memberEvent(joined))).toBe('joined');
+      expect(transition(memberEvent(joined, { membership: 'invite' }))).toBe('joined');
+      expect(transition(memberEvent({ membership: 'leave' }, joined))).toBe('left');
+      expect(transition(memberEvent({ membership: 'leave' }, joined, '@mod:matrix.org'))).toBe(
+        'kicked',
+      );
+      expect(transition(memberEvent({ membership: 'ban' }, joined, '@mod:matrix.org'))).toBe(
+        'banned',
+      );
+      expect(transition(memberEvent({ membership: 'invite' }, undefined, '@mod:matrix.org'))).toBe(
+        'invited',
+      );
+      expect(transition(memberEvent({ membership: 'knock' }))).toBe('knocked');
+    });
+
+    it('should report profile changes with their previous values', () => {
+      expect(
+        classifyMembership(
+          memberEvent(
+            { membership: 'join', displayname: 'Alice', avatar_url: 'mxc://matrix.org/new' },
+            { membership: 'join', displayname: 'Alice', avatar_url: 'mxc://matrix.org/old' },
+          ),
+        ),
+      ).toMatchObject({
+        transition: 'profile-changed',
+        displayName: 'Alice',
+        avatarUrl: 'mxc://matrix.org/new',
+        previousAvatarUrl: 'mxc://matrix.org/old',
+      });
+    });
+
+    it('should ignore repeats, unbans and withdrawn invites', () => {
+      const unchanged = { membership: 'join', displayname: 'Alice' };
+      expect(classifyMembership(memberEvent(unchanged, unchanged))).toBeNull();
+      expect(
+        classifyMembership(
+          memberEvent({ membership: 'leave' }, { membership: 'ban' }, '@mod:matrix.org'),
+        ),
+      ).toBeNull();
+      expect(
+        classifyMembership(
+          memberEvent({ membership: 'leave' }, { membership: 'invite' }, '@mod:matrix.org'),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    const emitted = () => mockRuntime.emitEvent.mock.calls.map(([events]: [string[]]) => events);
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should map transitions onto entity events', async () => {
+      const service = createService(mockRuntime);
+      const onEvent = listener(service, 'room.event');
+      const joined = { membership: 'join', displayname: 'Alice' };
+
+      await onEvent('!room:matrix.org', memberEvent(joined));
+      await onEvent(
+        '!room:matrix.org',
+        memberEvent({ membership: 'join', displayname: 'Alice', avatar_url: 'mxc://a' }, joined),
+      );
+      await onEvent(
+        '!room:matrix.org',
+        memberEvent({ membership: 'leave', reason: 'spam' }, joined, '@mod:matrix.org'),
+      );
+      await onEvent(
+        '!room:matrix.org',
+        memberEvent({ membership: 'invite' }, { membership: 'leave' }, '@mod:matrix.org'),
+      );
+
+      expect(emitted()).toEqual([
+        ['MATRIX_USER_JOINED', 'ENTITY_JOINED'],
+        ['MATRIX_USER_PROFILE_CHANGED', 'ENTITY_UPDATED'],
+        ['MATRIX_USER_KICKED', 'ENTITY_LEFT'],
+        ['MATRIX_USER_INVITED'],
+      ]);
+      expect(mockRuntime.emitEvent.mock.calls[2][1]).toMatchObject({
+        source: 'matrix',
+        userId: '@user:matrix.org',
+        sender: '@mod:matrix.org',
+        reason: 'spam',
+        transition: 'kicked',
+        metadata: { orginalId: '@user:matrix.org', username: '@user:matrix.org' },
+      });
+      // An avatar change is not a rename
+      expect(mockRuntime.ensureConnection).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { isMentioned, getLocalpart } from '../src/mentions';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const target = { userId: '@bot:matrix.org', displayNames: ['Helper Bot'] };
+
+describe('Mention Detection', () => {
+  it('should detect intentional mentions', () => {
+    expect(
+      isMentioned({ body: 'hi', 'm.mentions': { user_ids: ['@bot:matrix.org'] } }, target),
+    ).toBe(true);
+    expect(
+      isMentioned({ body: 'hi', 'm.mentions': { user_ids: ['@other:matrix.org'] } }, target),
+    ).toBe(false);
+  });
+
+  it('should detect matrix.to pills, including encoded ones', () => {
+    expect(
+      isMentioned(
+        {
+          body: 'Bot: hello',
+          formatted_body: '<a href="https://matrix.to/#/%40bot%3Amatrix.org">Bot</a>: hello',
+        },
+        { ...target, displayNames: [] },
+      ),
+    ).toBe(true);
+  });
+
+  it('should match display names and localparts as whole words', () => {
+    expect(isMentioned({ body: 'hey helper bot, are you there?' }, target)).toBe(true);
+    expect(isMentioned({ body: '@bot what time is it' }, target)).toBe(true);
+    expect(isMentioned({ body: 'robots are cool' }, target)).toBe(false);
+  });
+
+  it('should ignore names in reply fallbacks', () => {
+    expect(
+      isMentioned(
+        {
+          body: '> <@bot:matrix.org> earlier answer\n\nthanks everyone',
+          'm.relates_to': { 'm.in_reply_to': { event_id: '$x' } },
+        },
+        target,
+      ),
+    ).toBe(false);
+  });
+
+  it('should extract localparts', () => {
+    expect(getLocalpart('@bot:matrix.org')).toBe('bot');
+  });
+});
+
+describe('Mention Gating', () => {
+  let mockRuntime: MockRuntime;
+
+  const createGatedService = (matrixSettings: Record<string, unknown> = {}) =>
+    createService(mockRuntime, { shouldRespondOnlyToMentions: true, ...matrixSettings });
+
+  const receive = async (service: MatrixService, content: Record<string, unknown>) => {
+    await listener(service, 'room.message')('!room:matrix.org', {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: '$question:matrix.org',
+      origin_server_ts: Date.now(),
+      content: { msgtype: 'm.text', ...content },
+    });
+    return mockRuntime.emitEvent.mock.calls[0]?.[1];
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+  });
+
+  it('should answer messages that mention the bot', async () => {
+    const service = createGatedService();
+    const payload = await receive(service, { body: 'Eliza, what is Matrix?' });
+
+    expect(payload.message.content.metadata.observeOnly).toBe(false);
+    await payload.callback({ text: 'A protocol' });
+    expect(sentMessages(service)).not.toHaveLength(0);
+  });
+
+  it('should store other messages without answering them', async () => {
+    const service = createGatedService();
+    await receive(service, { body: 'just chatting' });
+
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    expect(mockRuntime.createMemory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.objectContaining({
+          text: 'just chatting',
+          metadata: expect.objectContaining({ observeOnly: true }),
+        }),
+      }),
+      'messages',
+    );
+    expect(sentMessages(service)).toHaveLength(0);
+    expect(service.client?.setTyping).not.toHaveBeenCalled();
+  });
+
+  it('should drop other messages when configured to', async () => {
+    const service = createGatedService({ unmentionedMessages: 'drop' });
+    await receive(service, { body: 'just chatting' });
+
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    expect(mockRuntime.createMemory).not.toHaveBeenCalled();
+  });
+
+  it('should treat replies to the bot as mentions', async () => {
+    const service = createGatedService();
+    (service.client?.getEvent as any).mockResolvedValue({ sender: '@bot:matrix.org' });
+    const payload = await receive(service, {
+      body: 'Can you explain more?',
+      'm.relates_to': { 'm.in_reply_to': { event_id: '$answer:matrix.org' } },
+    });
+
+    expect(payload.message.content.metadata.observeOnly).toBe(false);
+  });
+
+  it('should exempt direct messages by default', async () => {
+    const service = createGatedService();
+    vi.spyOn(service, 'getRoomInfo').mockResolvedValue({
+      id: '!room:matrix.org',
+      isDirect: true,
+      isEncrypted: false,
+      memberCount: 2,
+    });
+    const payload = await receive(service, { body: 'hello' });
+
+    expect(payload.message.content.metadata.observeOnly).toBe(false);
+  });
+
+  it('should gate direct messages when required', async () => {
+    const service = createGatedService({ requireMentionsInDirectMessages: true });
+    vi.spyOn(service, 'getRoomInfo').mockResolvedValue({
+      id: '!room:matrix.org',
+      isDirect: true,
+      isEncrypted: false,
+      memberCount: 2,
+    });
+    await receive(service, { body: 'hello' });
+
+    expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+  });
+});
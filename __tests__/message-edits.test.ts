@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { MatrixEventTypes } from '../src/types';
+import { createUniqueUuid } from '@elizaos/core';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Matrix Message Edits', () => {
+  let mockRuntime: MockRuntime;
+  let storedMemory: any;
+
+  const createService = (matrixSettings: Record<string, unknown> = {}) =>
+    createMatrixService(mockRuntime, matrixSettings, {
+      doRequest: vi.fn().mockResolvedValue({ event_id: '$bot_reply:matrix.org' }),
+      getEvent: vi.fn().mockResolvedValue({ sender: '@bot:matrix.org' }),
+    });
+
+  const receive = (service: MatrixService, event: Record<string, unknown>) =>
+    listener(service, 'room.message')('!room:matrix.org', event);
+
+  const respond = (index: number, text: string) =>
+    mockRuntime.emitEvent.mock.calls[index][1].callback({ text });
+
+  const originalEvent = {
+    type: 'm.room.message',
+    sender: '@user:matrix.org',
+    event_id: '$original:matrix.org',
+    content: { msgtype: 'm.text', body: 'What is 2+2?' },
+  };
+
+  const editEvent = {
+    type: 'm.room.message',
+    sender: '@user:matrix.org',
+    event_id: '$edit:matrix.org',
+    content: {
+      msgtype: 'm.text',
+      body: '* What is 3+3?',
+      'm.new_content': { msgtype: 'm.text', body: 'What is 3+3?' },
+      'm.relates_to': { rel_type: 'm.replace', event_id: '$original:matrix.org' },
+    },
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    mockRuntime.getMemoryById.mockImplementation(async () => storedMemory);
+    storedMemory = {
+      id: createUniqueUuid(mockRuntime as any, '$original:matrix.org'),
+      entityId: createUniqueUuid(mockRuntime as any, '@user:matrix.org'),
+      content: { text: 'What is 2+2?', source: 'matrix', metadata: { roomId: '!room:matrix.org' } },
+    };
+  });
+
+  describe('Inbound Edits', () => {
+    it('should update the stored memory instead of emitting a new message', async () => {
+      const service = createService();
+
+      await receive(service, editEvent);
+
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+      expect(mockRuntime.updateMemory).toHaveBeenCalledWith({
+        id: storedMemory.id,
+        content: expect.objectContaining({
+          text: 'What is 3+3?',
+          metadata: expect.objectContaining({
+            roomId: '!room:matrix.org',
+            editEventId: '$edit:matrix.org',
+          }),
+        }),
+      });
+    });
+
+    it('should ignore edits from someone other than the original sender', async () => {
+      const service = createService();
+
+      await receive(service, {
+        ...editEvent,
+        sender: '@mallory:matrix.org',
+      });
+
+      expect(mockRuntime.updateMemory).not.toHaveBeenCalled();
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    });
+
+    it('should regenerate the reply by editing it when regenerateOnEdit is set', async () => {
+      const service = createService({ regenerateOnEdit: true });
+
+      await receive(service, originalEvent);
+      await respond(0, '4');
+
+      await receive(service, editEvent);
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledTimes(2);
+      const [eventTypes, payload] = mockRuntime.emitEvent.mock.calls[1];
+      expect(eventTypes).toEqual([MatrixEventTypes.MESSAGE_RECEIVED, 'MESSAGE_RECEIVED']);
+      expect(payload.message.content.text).toBe('What is 3+3?');
+
+      await payload.callback({ text: '6' });
+
+      expect(sentMessages(service).pop()).toEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.text',
+          body: '* 6',
+          'm.new_content': { msgtype: 'm.text', body: '6' },
+          'm.relates_to': { rel_type: 'm.replace', event_id: '$bot_reply:matrix.org' },
+        },
+      ]);
+    });
+
+    it('should edit, send or redact every message of a split reply', async () => {
+      const service = createService({ regenerateOnEdit: true });
+      let sent = 0;
+      (service.client?.doRequest as any).mockImplementation(async () => ({
+        event_id: `$bot_reply${++sent}:matrix.org`,
+      }));
+      const sentEvents = () =>
+        (service.client?.doRequest as any).mock.calls
+          .filter(([method]: [string]) => method === 'PUT')
+          .map(([, path, , content]: [string, string, unknown, any]) => {
+            const [, action, target] = path.split('/').slice(5);
+            return action === 'redact' ? ['redact', decodeURIComponent(target)] : ['send', content];
+          });
+      const longText = (line: string) =>
+        Array.from({ length: 3 }, () => line.repeat(3000)).join('\n\n');
+
+      await receive(service, originalEvent);
+      await respond(0, longText('a'));
+      expect(sent).toBe(3);
+
+      // A shorter answer edits the first message and redacts the rest
+      await receive(service, editEvent);
+      await respond(1, '6');
+      expect(sentEvents().slice(3)).toEqual([
+        ['send', expect.objectContaining({ body: '* 6' })],
+        ['redact', '$bot_reply2:matrix.org'],
+        ['redact', '$bot_reply3:matrix.org'],
+      ]);
+
+      // A longer answer edits the remaining message and sends the rest
+      await receive(service, {
+        ...editEvent,
+        event_id: '$edit2:matrix.org',
+      });
+      await respond(2, longText('b'));
+      const events = sentEvents().slice(6);
+      expect(events).toHaveLength(3);
+      expect(events[0][1]['m.relates_to']).toEqual({
+        rel_type: 'm.replace',
+        event_id: '$bot_reply1:matrix.org',
+      });
+      expect(events[0][1]['m.new_content'].body).toBe('b'.repeat(3000));
+      expect(events[1][1]).toEqual({ msgtype: 'm.text', body: 'b'.repeat(3000) });
+      expect(events[2][1]).toEqual({ msgtype: 'm.text', body: 'b'.repeat(3000) });
+    });
+
+    it('should not regenerate replies past the inbound rate limit', async () => {
+      const service = createService({
+        regenerateOnEdit: true,
+        inboundLimits: { sender: { burst: 1, perMinute: 1 } },
+      });
+
+      await receive(service, originalEvent);
+      await respond(0, '4');
+      for (let i = 0; i < 3; i++) {
+        await receive(service, {
+          ...editEvent,
+          event_id: `$edit${i}:matrix.org`,
+        });
+      }
+
+      expect(mockRuntime.updateMemory).toHaveBeenCalledTimes(3);
+      expect(emitted(mockRuntime, 'MESSAGE_RECEIVED')).toHaveLength(1);
+    });
+
+    it('should not regenerate replies by default', async () => {
+      const service = createService();
+
+      await receive(service, originalEvent);
+      await respond(0, '4');
+      await receive(service, editEvent);
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Outbound Edits', () => {
+    it('should send an m.replace edit of the bot message', async () => {
+      const service = createService();
+
+      await service.editMessage('!room:matrix.org', '$bot_reply:matrix.org', 'Corrected');
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.text',
+          body: '* Corrected',
+          'm.new_content': { msgtype: 'm.text', body: 'Corrected' },
+          'm.relates_to': { rel_type: 'm.replace', event_id: '$bot_reply:matrix.org' },
+        },
+      ]);
+    });
+
+    it('should refuse to edit messages sent by others', async () => {
+      const service = createService();
+      (service.client?.getEvent as any).mockResolvedValue({ sender: '@user:matrix.org' });
+
+      await expect(
+        service.editMessage('!room:matrix.org', '$original:matrix.org', 'Hijacked'),
+      ).rejects.toThrow('was not sent by the bot');
+      expect(sentMessages(service)).toHaveLength(0);
+    });
+  });
+});
@@ -8,15 +8,15 @@ vi.mock('matrix-bot-sdk', () => ({
   MatrixClient: vi.fn().mockImplementation(() => ({
     start: vi.fn().mockResolvedValue(undefined),
     stop: vi.fn().mockResolvedValue(undefined),
-    sendMessage: vi.fn().mockResolvedValue('$event:matrix.org'),
+    doRequest: vi.fn().mockResolvedValue({ event_id: '$event:matrix.org' }),
     getUserId: vi.fn().mockResolvedValue('@bot:matrix.org'),
     getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Test User' }),
     getRoomState: vi.fn().mockResolvedValue([
       { type: 'm.room.name', content: { name: 'Test Room' } }
     ]),
-    getRoomMembers: vi.fn().mockResolvedValue([
-      { userId: '@user1:matrix.org' },
-      { userId: '@bot:matrix.org' }
+    getJoinedRoomMembers: vi.fn().mockResolvedValue([
+      '@user1:matrix.org',
+      '@bot:matrix.org'
     ]),
     getAccountData: vi.fn().mockRejectedValue(new Error('No account data')),
     on: vi.fn(),
@@ -79,10 +79,10 @@ describe('Matrix Message Forwarding', () => {
     it('should process and forward text messages to ElizaOS', async () => {
       // Mock group room (3+ members)
       if (service.client) {
-        service.client.getRoomMembers = vi.fn().mockResolvedValue([
-          { userId: '@user:matrix.org' },
-          { userId: '@bot:matrix.org' },
-          { userId: '@user2:matrix.org' }
+        service.client.getJoinedRoomMembers = vi.fn().mockResolvedValue([
+          '@user:matrix.org',
+          '@bot:matrix.org',
+          '@user2:matrix.org'
         ]);
       }
 
@@ -209,8 +209,10 @@ describe('Matrix Message Forwarding', () => {
       await callback({ text: 'Bot response' });
 
       // Verify the bot sent a response message
-      expect(service.client?.sendMessage).toHaveBeenCalledWith(
-        '!room:matrix.org',
+      expect(service.client?.doRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/rooms/!room%3Amatrix.org/send/m.room.message/'),
+        null,
         {
           msgtype: 'm.text',
           body: 'Bot response'
@@ -221,9 +223,9 @@ describe('Matrix Message Forwarding', () => {
     it('should handle direct messages correctly', async () => {
       // Mock DM room (2 members)
       if (service.client) {
-        service.client.getRoomMembers = vi.fn().mockResolvedValue([
-          { userId: '@user:matrix.org' },
-          { userId: '@bot:matrix.org' }
+        service.client.getJoinedRoomMembers = vi.fn().mockResolvedValue([
+          '@user:matrix.org',
+          '@bot:matrix.org'
         ]);
       }
 
@@ -263,10 +265,10 @@ describe('Matrix Message Forwarding', () => {
     it('should process and forward emote messages', async () => {
       // Mock group room (3+ members)
       if (service.client) {
-        service.client.getRoomMembers = vi.fn().mockResolvedValue([
-          { userId: '@user:matrix.org' },
-          { userId: '@bot:matrix.org' },
-          { userId: '@user2:matrix.org' }
+        service.client.getJoinedRoomMembers = vi.fn().mockResolvedValue([
+          '@user:matrix.org',
+          '@bot:matrix.org',
+          '@user2:matrix.org'
         ]);
       }
 
@@ -305,10 +307,10 @@ describe('Matrix Message Forwarding', () => {
       
       // Mock group room (3+ members)
       if (service.client) {
-        service.client.getRoomMembers = vi.fn().mockResolvedValue([
-          { userId: '@user:matrix.org' },
-          { userId: '@bot:matrix.org' },
-          { userId: '@user2:matrix.org' }
+        service.client.getJoinedRoomMembers = vi.fn().mockResolvedValue([
+          '@user:matrix.org',
+          '@bot:matrix.org',
+          '@user2:matrix.org'
         ]);
       }
 
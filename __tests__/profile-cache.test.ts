@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProfileCache } from '../src/profileCache';
+import userInfoProvider from '../src/providers/userInfo';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const memberEvent = (userId: string, displayname: string, prevDisplayname?: string) => ({
+  type: 'm.room.member',
+  state_key: userId,
+  sender: userId,
+  event_id: `$member-${displayname}:matrix.org`,
+  content: { membership: 'join', displayname },
+  unsigned: prevDisplayname
+    ? { prev_content: { membership: 'join', displayname: prevDisplayname } }
+    : undefined,
+});
+
+describe('Profile Cache', () => {
+  describe('ProfileCache', () => {
+    let now: number;
+    let source: any;
+
+    const createCache = () => new ProfileCache(source, { ttlMs: 1000, now: () => now });
+
+    beforeEach(() => {
+      now = 0;
+      source = {
+        getRoomStateEvent: vi.fn().mockResolvedValue({ membership: 'join', displayname: 'Ali' }),
+        getUserProfile: vi
+          .fn()
+          .mockResolvedValue({ displayname: 'Alice', avatar_url: 'mxc://matrix.org/alice' }),
+      };
+    });
+
+    it('should prefer the per-room display name over the global profile', async () => {
+      const cache = createCache();
+
+      const profile = await cache.getProfile('!room:matrix.org', '@alice:matrix.org');
+
+      expect(profile).toEqual({ displayName: 'Ali', avatarUrl: 'mxc://matrix.org/alice' });
+    });
+
+    it('should fall back to the global profile without room membership', async () => {
+      source.getRoomStateEvent.mockRejectedValue(new Error('M_NOT_FOUND'));
+      const cache = createCache();
+
+      const profile = await cache.getProfile('!room:matrix.org', '@alice:matrix.org');
+
+      expect(profile.displayName).toBe('Alice');
+    });
+
+    it('should look up each profile once until the TTL passes', async () => {
+      const cache = createCache();
+
+      await cache.getProfile('!room:matrix.org', '@alice:matrix.org');
+      await cache.getProfile('!room:matrix.org', '@alice:matrix.org');
+      expect(source.getRoomStateEvent).toHaveBeenCalledTimes(1);
+      expect(source.getUserProfile).toHaveBeenCalledTimes(1);
+
+      now = 1500;
+      await cache.getGlobalProfile('@alice:matrix.org');
+      expect(source.getUserProfile).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report display name changes from membership events', async () => {
+      const cache = createCache();
+      await cache.getRoomMember('!room:matrix.org', '@alice:matrix.org');
+
+      const change = cache.applyMemberEvent(
+        '!room:matrix.org',
+        memberEvent('@alice:matrix.org', 'Alicia'),
+      );
+
+      expect(change).toEqual({
+        userId: '@alice:matrix.org',
+        previousName: 'Ali',
+        displayName: 'Alicia',
+      });
+      expect((await cache.getProfile('!room:matrix.org', '@alice:matrix.org')).displayName).toBe(
+        'Alicia',
+      );
+      expect(source.getRoomStateEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use prev_content for users it has not seen yet', () => {
+      const cache = createCache();
+
+      expect(
+        cache.applyMemberEvent('!room:matrix.org', memberEvent('@bob:matrix.org', 'Bob')),
+      ).toBeNull();
+      expect(
+        cache.applyMemberEvent(
+          '!room:matrix.org',
+          memberEvent('@carol:matrix.org', 'Carol', 'Caz'),
+        ),
+      ).toEqual({ userId: '@carol:matrix.org', previousName: 'Caz', displayName: 'Carol' });
+    });
+
+    it('should forget members who leave', async () => {
+      const cache = createCache();
+      await cache.getRoomMember('!room:matrix.org', '@alice:matrix.org');
+
+      cache.applyMemberEvent('!room:matrix.org', {
+        type: 'm.room.member',
+        state_key: '@alice:matrix.org',
+        content: { membership: 'leave' },
+      });
+      await cache.getRoomMember('!room:matrix.org', '@alice:matrix.org');
+
+      expect(source.getRoomStateEvent).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    // Alice goes by Alice in the room and Alice Global elsewhere
+    const createService = () =>
+      createMatrixService(
+        mockRuntime,
+        {},
+        {
+          getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Alice Global' }),
+          getRoomStateEvent: vi
+            .fn()
+            .mockResolvedValue({ membership: 'join', displayname: 'Alice' }),
+          getJoinedRoomMembers: vi
+            .fn()
+            .mockResolvedValue(['@alice:matrix.org', '@bot:matrix.org', '@user2:matrix.org']),
+        },
+      );
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should expose the per-room display name', async () => {
+      const service = createService();
+
+      await expect(service.getDisplayName('!room:matrix.org', '@alice:matrix.org')).resolves.toBe(
+        'Alice',
+      );
+    });
+
+    it('should not fetch the profile again for every message', async () => {
+      const service = createService();
+      const onMessage = listener(service, 'room.message');
+
+      for (const eventId of ['$1:matrix.org', '$2:matrix.org']) {
+        await onMessage('!room:matrix.org', {
+          type: 'm.room.message',
+          sender: '@alice:matrix.org',
+          event_id: eventId,
+          content: { msgtype: 'm.text', body: 'Hello' },
+        });
+      }
+
+      expect(service.client?.getRoomStateEvent).toHaveBeenCalledTimes(1);
+      expect(mockRuntime.ensureConnection).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Alice' }),
+      );
+    });
+
+    it('should update the entity when a user changes their display name', async () => {
+      const service = createService();
+
+      await listener(service, 'room.event')(
+        '!room:matrix.org',
+        memberEvent('@alice:matrix.org', 'Alicia', 'Alice'),
+      );
+
+      expect(mockRuntime.ensureConnection).toHaveBeenCalledWith(
+        expect.objectContaining({ userName: '@alice:matrix.org', name: 'Alicia' }),
+      );
+      expect(emitted(mockRuntime, 'MATRIX_USER_JOINED')).toHaveLength(0);
+    });
+
+    it('should serve the user info provider from the cache with the room display name', async () => {
+      const service = createService();
+      mockRuntime.getService.mockReturnValue(service);
+      const message = {
+        content: { userId: '@alice:matrix.org', roomId: '!room:matrix.org' },
+      } as any;
+
+      const first = await userInfoProvider.get(mockRuntime as any, message);
+      const second = await userInfoProvider.get(mockRuntime as any, message);
+
+      expect(first).toBe('User ID: @alice:matrix.org\nDisplay Name: Alice');
+      expect(second).toBe(first);
+      expect(service.client?.getRoomStateEvent).toHaveBeenCalledTimes(1);
+      expect(service.client?.getUserProfile).toHaveBeenCalledTimes(1);
+    });
+  });
+});
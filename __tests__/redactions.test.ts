@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { MatrixEventTypes } from '../src/types';
+import { createUniqueUuid } from '@elizaos/core';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Matrix Redactions', () => {
+  let mockRuntime: MockRuntime;
+  let storedMemory: any;
+
+  const createService = (matrixSettings: Record<string, unknown> = {}) =>
+    createMatrixService(mockRuntime, matrixSettings, {
+      doRequest: vi.fn().mockResolvedValue({ event_id: '$redaction:matrix.org' }),
+      getEvent: vi.fn().mockResolvedValue({ sender: '@bot:matrix.org' }),
+    });
+
+  const receive = (service: MatrixService, event: Record<string, unknown>) =>
+    listener(service, 'room.event')('!room:matrix.org', event);
+
+  const redactionEvent = {
+    type: 'm.room.redaction',
+    sender: '@user:matrix.org',
+    event_id: '$redaction:matrix.org',
+    origin_server_ts: 1234567999,
+    redacts: '$message:matrix.org',
+    content: { reason: 'oops' },
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    mockRuntime.getMemoryById.mockImplementation(async () => storedMemory);
+    storedMemory = {
+      id: createUniqueUuid(mockRuntime as any, '$message:matrix.org'),
+      content: { text: 'secret', source: 'matrix', metadata: { messageType: 'm.text' } },
+    };
+  });
+
+  describe('Inbound Redactions', () => {
+    it('should delete the memory of a redacted message', async () => {
+      const service = createService();
+
+      await receive(service, redactionEvent);
+
+      expect(mockRuntime.deleteMemory).toHaveBeenCalledWith(storedMemory.id);
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    });
+
+    it('should tombstone the memory when configured', async () => {
+      const service = createService({ redactionPolicy: 'tombstone' });
+
+      await receive(service, {
+        ...redactionEvent,
+        redacts: undefined,
+        content: { redacts: '$message:matrix.org' },
+      });
+
+      expect(mockRuntime.deleteMemory).not.toHaveBeenCalled();
+      expect(mockRuntime.updateMemory).toHaveBeenCalledWith({
+        id: storedMemory.id,
+        content: expect.objectContaining({
+          text: '[Message deleted]',
+          metadata: expect.objectContaining({
+            redacted: true,
+            redactedBy: '@user:matrix.org',
+          }),
+        }),
+      });
+    });
+
+    it('should emit REACTION_REMOVED when a reaction is redacted', async () => {
+      const service = createService();
+      storedMemory = null;
+
+      await receive(service, {
+        sender: '@user:matrix.org',
+        event_id: '$reaction:matrix.org',
+        type: 'm.reaction',
+        content: {
+          'm.relates_to': {
+            rel_type: 'm.annotation',
+            event_id: '$target:matrix.org',
+            key: '👍',
+          },
+        },
+      });
+      mockRuntime.emitEvent.mockClear();
+
+      await receive(service, {
+        ...redactionEvent,
+        redacts: '$reaction:matrix.org',
+      });
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        [MatrixEventTypes.REACTION_REMOVED, 'REACTION_REMOVED'],
+        expect.objectContaining({
+          targetEventId: '$target:matrix.org',
+          reactionKey: '👍',
+          message: expect.objectContaining({
+            id: createUniqueUuid(mockRuntime as any, '$reaction:matrix.org'),
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('Outbound Redactions', () => {
+    it("should redact the bot's own messages", async () => {
+      const service = createService();
+
+      await service.redactMessage('!room:matrix.org', '$mine:matrix.org', 'outdated');
+
+      expect(service.client?.doRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/rooms/!room%3Amatrix.org/redact/%24mine%3Amatrix.org/'),
+        null,
+        { reason: 'outdated' },
+      );
+    });
+
+    it("should only redact other users' messages with enough power", async () => {
+      const service = createService();
+      const client = service.client as any;
+      client.getEvent.mockResolvedValue({ sender: '@user:matrix.org' });
+
+      await expect(service.redactMessage('!room:matrix.org', '$theirs:matrix.org')).rejects.toThrow(
+        'Not allowed to redact',
+      );
+      expect(client.doRequest).not.toHaveBeenCalled();
+
+      client.userHasPowerLevelForAction.mockResolvedValue(true);
+      await service.redactMessage('!room:matrix.org', '$theirs:matrix.org');
+      expect(client.doRequest).toHaveBeenCalledWith(
+        'PUT',
+        expect.stringContaining('/redact/%24theirs%3Amatrix.org/'),
+        null,
+        {},
+      );
+    });
+  });
+});
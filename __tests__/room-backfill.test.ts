@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createUniqueUuid } from '@elizaos/core';
+import type { MatrixService } from '../src/service';
+import { fetchRoomHistory } from '../src/backfill';
+import backfillRoomAction from '../src/actions/backfillRoom';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const message = (eventId: string, sender: string, timestamp: number, content: any = {}) => ({
+  type: 'm.room.message',
+  event_id: eventId,
+  sender,
+  origin_server_ts: timestamp,
+  content: { msgtype: 'm.text', body: `Message ${eventId}`, ...content },
+});
+
+describe('Room Backfill', () => {
+  let mockRuntime: MockRuntime;
+
+  // Alice and Carol share the room with the bot
+  const createService = (matrixSettings: Record<string, unknown> = {}) =>
+    createMatrixService(mockRuntime, matrixSettings, {
+      doRequest: vi.fn(),
+      getUserProfile: vi.fn().mockResolvedValue({ displayname: 'Alice' }),
+      getJoinedRoomMembers: vi
+        .fn()
+        .mockResolvedValue(['@alice:matrix.org', '@bot:matrix.org', '@carol:matrix.org']),
+    });
+
+  // Pages are returned newest first, as /messages does with dir=b
+  const serveHistory = (service: MatrixService, pages: any[][]) => {
+    (service.client?.doRequest as any).mockImplementation(
+      async (_method: string, _path: string, qs: any) => {
+        const index = qs.from ? Number(qs.from) : 0;
+        return {
+          chunk: pages[index] || [],
+          end: index + 1 < pages.length ? String(index + 1) : undefined,
+        };
+      },
+    );
+  };
+
+  beforeEach(() => {
+    const memories = new Map<string, any>();
+    mockRuntime = createMockRuntime(
+      {},
+      {
+        getMemoryById: vi.fn(async (id: string) => memories.get(id) || null),
+        createMemory: vi.fn(async (memory: any) => {
+          memories.set(memory.id, memory);
+          return memory.id;
+        }),
+      },
+    );
+  });
+
+  it('should import messages oldest first with their original timestamps', async () => {
+    const service = createService();
+    serveHistory(service, [
+      [
+        message('$3:matrix.org', '@bot:matrix.org', 3000),
+        { type: 'm.room.topic', event_id: '$topic:matrix.org', content: { topic: 'News' } },
+        message('$2:matrix.org', '@alice:matrix.org', 2000),
+      ],
+      [message('$1:matrix.org', '@alice:matrix.org', 1000)],
+    ]);
+
+    const result = await service.backfillRoom('!room:matrix.org');
+
+    expect(result).toEqual({ imported: 3, skipped: 0, undecryptable: 0 });
+    const stored = mockRuntime.createMemory.mock.calls.map(([memory]: [any]) => memory);
+    expect(stored.map((memory: any) => memory.createdAt)).toEqual([1000, 2000, 3000]);
+    expect(stored[0].id).toBe(createUniqueUuid(mockRuntime, '$1:matrix.org'));
+    expect(stored[0].entityId).toBe(createUniqueUuid(mockRuntime, '@alice:matrix.org'));
+    expect(stored[0].roomId).toBe(createUniqueUuid(mockRuntime, '!room:matrix.org'));
+    expect(stored[0].content.metadata.backfilled).toBe(true);
+    expect(stored[2].entityId).toBe('test-agent-id');
+    expect(mockRuntime.createMemory.mock.calls[0][1]).toBe('messages');
+    expect(mockRuntime.ensureConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip messages that are already in memory', async () => {
+    const service = createService();
+    serveHistory(service, [
+      [
+        message('$2:matrix.org', '@alice:matrix.org', 2000),
+        message('$1:matrix.org', '@alice:matrix.org', 1000),
+      ],
+    ]);
+
+    await service.backfillRoom('!room:matrix.org');
+    const result = await service.backfillRoom('!room:matrix.org');
+
+    expect(result).toEqual({ imported: 0, skipped: 2, undecryptable: 0 });
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply edits and skip redacted events', async () => {
+    const service = createService();
+    const edit = (eventId: string, sender: string, timestamp: number, body: string) =>
+      message(eventId, sender, timestamp, {
+        body: `* ${body}`,
+        'm.new_content': { msgtype: 'm.text', body },
+        'm.relates_to': { rel_type: 'm.replace', event_id: '$1:matrix.org' },
+      });
+    serveHistory(service, [
+      [
+        edit('$forged:matrix.org', '@carol:matrix.org', 4000, 'Forged'),
+        edit('$edit2:matrix.org', '@alice:matrix.org', 3000, 'Second edit'),
+        edit('$edit1:matrix.org', '@alice:matrix.org', 2000, 'First edit'),
+        {
+          type: 'm.room.message',
+          event_id: '$gone:matrix.org',
+          sender: '@alice:matrix.org',
+          content: {},
+        },
+        message('$1:matrix.org', '@alice:matrix.org', 1000, {
+          'm.relates_to': { 'm.in_reply_to': { event_id: '$0:matrix.org' } },
+        }),
+      ],
+    ]);
+
+    const result = await service.backfillRoom('!room:matrix.org');
+
+    expect(result).toEqual({ imported: 1, skipped: 4, undecryptable: 0 });
+    const stored = mockRuntime.createMemory.mock.calls[0][0];
+    expect(stored.content.text).toBe('Second edit');
+    expect(stored.content.metadata.replyToEventId).toBe('$0:matrix.org');
+  });
+
+  it('should not cut a backfill since a date at the default limit', async () => {
+    const service = createService({ backfillLimit: 2 });
+    serveHistory(service, [
+      [
+        message('$3:matrix.org', '@alice:matrix.org', 3000),
+        message('$2:matrix.org', '@alice:matrix.org', 2000),
+        message('$1:matrix.org', '@alice:matrix.org', 1000),
+      ],
+    ]);
+
+    await expect(service.backfillRoom('!room:matrix.org', { since: 500 })).resolves.toMatchObject({
+      imported: 3,
+    });
+  });
+
+  it('should count encrypted messages it cannot decrypt', async () => {
+    const service = createService();
+    serveHistory(service, [
+      [
+        {
+          type: 'm.room.encrypted',
+          event_id: '$secret:matrix.org',
+          sender: '@alice:matrix.org',
+          origin_server_ts: 1000,
+          content: { algorithm: 'm.megolm.v1.aes-sha2', ciphertext: 'abc' },
+        },
+      ],
+    ]);
+
+    const result = await service.backfillRoom('!room:matrix.org');
+
+    expect(result).toEqual({ imported: 0, skipped: 0, undecryptable: 1 });
+  });
+
+  it('should use decrypted content when the room keys are available', async () => {
+    const service = createService();
+    (service.client as any).crypto = {
+      isReady: true,
+      decryptRoomEvent: vi.fn(async (event: any) => ({
+        raw: {
+          ...event.raw,
+          type: 'm.room.message',
+          content: { msgtype: 'm.text', body: 'Decrypted hello' },
+        },
+      })),
+    };
+    serveHistory(service, [
+      [
+        {
+          type: 'm.room.encrypted',
+          event_id: '$secret:matrix.org',
+          sender: '@alice:matrix.org',
+          origin_server_ts: 1000,
+          content: { algorithm: 'm.megolm.v1.aes-sha2', ciphertext: 'abc' },
+        },
+      ],
+    ]);
+
+    await expect(service.backfillRoom('!room:matrix.org')).resolves.toEqual({
+      imported: 1,
+      skipped: 0,
+      undecryptable: 0,
+    });
+    const [[memory]] = mockRuntime.createMemory.mock.calls;
+    expect(memory.content.text).toBe('Decrypted hello');
+    expect(memory.content.metadata.encrypted).toBe(true);
+  });
+
+  it('should backfill rooms on join when backfillOnJoin is set', async () => {
+    const service = createService({ backfillOnJoin: true, backfillLimit: 1 });
+    serveHistory(service, [
+      [
+        message('$2:matrix.org', '@alice:matrix.org', 2000),
+        message('$1:matrix.org', '@alice:matrix.org', 1000),
+      ],
+    ]);
+    await listener(service, 'room.join')('!room:matrix.org', {});
+
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+    expect(mockRuntime.createMemory.mock.calls[0][0].createdAt).toBe(2000);
+  });
+
+  describe('fetchRoomHistory', () => {
+    it('should page backwards until the since date', async () => {
+      const doRequest = vi
+        .fn()
+        .mockResolvedValueOnce({
+          chunk: [message('$3:matrix.org', '@alice:matrix.org', 3000)],
+          end: 't1',
+        })
+        .mockResolvedValueOnce({
+          chunk: [
+            message('$2:matrix.org', '@alice:matrix.org', 2000),
+            message('$1:matrix.org', '@alice:matrix.org', 1000),
+          ],
+          end: 't2',
+        });
+
+      const events = await fetchRoomHistory({ doRequest } as any, '!room:matrix.org', {
+        limit: 10,
+        since: 1500,
+        pageSize: 1,
+      });
+
+      expect(events.map((event) => event.event_id)).toEqual(['$2:matrix.org', '$3:matrix.org']);
+      expect(doRequest).toHaveBeenCalledTimes(2);
+      expect(doRequest.mock.calls[0][1]).toBe(
+        '/_matrix/client/v3/rooms/!room%3Amatrix.org/messages',
+      );
+      expect(doRequest.mock.calls[1][2]).toMatchObject({ dir: 'b', from: 't1' });
+    });
+  });
+
+  describe('BACKFILL_ROOM action', () => {
+    it('should pass the limit and since date to the service', async () => {
+      const service = {
+        client: {},
+        backfillRoom: vi.fn().mockResolvedValue({ imported: 5, skipped: 0, undecryptable: 0 }),
+      };
+      const runtime: any = { getService: vi.fn().mockReturnValue(service) };
+
+      const result = await backfillRoomAction.handler(runtime, {
+        content: { roomId: '!room:matrix.org', limit: '5', since: '2024-01-15T00:00:00Z' },
+      } as any);
+
+      expect(result).toEqual({ success: true });
+      expect(service.backfillRoom).toHaveBeenCalledWith('!room:matrix.org', {
+        limit: 5,
+        since: new Date('2024-01-15T00:00:00Z'),
+      });
+    });
+
+    it('should reject an invalid since date', async () => {
+      const service = { client: {}, backfillRoom: vi.fn() };
+      const runtime: any = { getService: vi.fn().mockReturnValue(service) };
+
+      const result = await backfillRoomAction.handler(runtime, {
+        content: { roomId: '!room:matrix.org', since: 'last week-ish' },
+      } as any);
+
+      expect(result).toEqual({ success: false });
+      expect(service.backfillRoom).not.toHaveBeenCalled();
+    });
+  });
+});
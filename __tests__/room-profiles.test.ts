@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { validateRoomProfiles } from '../src/environment';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const message = (eventId: string, content: Record<string, unknown>) => ({
+  type: 'm.room.message',
+  sender: '@user:matrix.org',
+  event_id: eventId,
+  content,
+});
+
+describe('Room Profiles', () => {
+  describe('validateRoomProfiles', () => {
+    it('should accept profiles keyed by room ID or alias', () => {
+      const rooms = {
+        '!room:matrix.org': { responseMode: 'mentions', messageType: 'm.notice' },
+        '#support:matrix.org': { rateLimit: { maxResponses: 5, windowMs: 60000 } },
+      };
+
+      expect(validateRoomProfiles(rooms)).toEqual(rooms);
+      expect(validateRoomProfiles(undefined)).toEqual({});
+    });
+
+    it('should reject invalid keys, values and unknown fields', () => {
+      expect(() => validateRoomProfiles({ general: {} })).toThrow(
+        /rooms\.general: Expected a room ID or alias/,
+      );
+      expect(() => validateRoomProfiles({ '!room:matrix.org': { replyStyle: 'quote' } })).toThrow(
+        /rooms\.!room:matrix\.org\.replyStyle/,
+      );
+      expect(() => validateRoomProfiles({ '!room:matrix.org': { mentionsOnly: true } })).toThrow(
+        /Matrix room profile validation failed/,
+      );
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    // One room has a canonical alias with an alternative
+    const createService = (
+      rooms: Record<string, unknown>,
+      settings: Record<string, unknown> = {},
+    ) =>
+      createMatrixService(
+        mockRuntime,
+        { ...settings, rooms },
+        {
+          getRoomState: vi.fn().mockImplementation(async (roomId: string) =>
+            roomId === '!aliased:matrix.org'
+              ? [
+                  {
+                    type: 'm.room.canonical_alias',
+                    state_key: '',
+                    content: { alias: '#main:matrix.org', alt_aliases: ['#support:matrix.org'] },
+                  },
+                ]
+              : [],
+          ),
+        },
+      );
+
+    const receivedPayloads = () => emitted(mockRuntime, 'MESSAGE_RECEIVED');
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should not start with invalid profiles', () => {
+      const service = createService({ '!room:matrix.org': { responseMode: 'sometimes' } });
+
+      expect(service.client).toBeNull();
+      expect(mockRuntime.logger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Matrix room profile validation failed'),
+      );
+    });
+
+    it('should resolve profiles by room ID, then by alias', async () => {
+      const service = createService({
+        '!room:matrix.org': { responseMode: 'observe' },
+        '#support:matrix.org': { messageType: 'm.notice' },
+      });
+
+      await expect(service.getRoomProfile('!room:matrix.org')).resolves.toEqual({
+        responseMode: 'observe',
+      });
+      await expect(service.getRoomProfile('!aliased:matrix.org')).resolves.toEqual({
+        messageType: 'm.notice',
+      });
+      await expect(service.getRoomProfile('!other:matrix.org')).resolves.toEqual({});
+    });
+
+    it('should observe messages in observe-only rooms', async () => {
+      const service = createService({ '!room:matrix.org': { responseMode: 'observe' } });
+
+      await listener(service, 'room.message')(
+        '!room:matrix.org',
+        message('$1:matrix.org', { msgtype: 'm.text', body: 'Hello' }),
+      );
+
+      expect(receivedPayloads()).toHaveLength(0);
+      expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should override the global mention setting', async () => {
+      const service = createService(
+        { '!room:matrix.org': { responseMode: 'always' } },
+        { shouldRespondOnlyToMentions: true, unmentionedMessages: 'drop' },
+      );
+      const onMessage = listener(service, 'room.message');
+
+      await onMessage(
+        '!room:matrix.org',
+        message('$1:matrix.org', { msgtype: 'm.text', body: 'Hi' }),
+      );
+      await onMessage(
+        '!other:matrix.org',
+        message('$2:matrix.org', { msgtype: 'm.text', body: 'Hi' }),
+      );
+
+      const payloads = receivedPayloads();
+      expect(payloads).toHaveLength(1);
+      expect(payloads[0].message.content.metadata.observeOnly).toBe(false);
+    });
+
+    it('should answer with notices in threads as the profile asks', async () => {
+      const service = createService({
+        '!room:matrix.org': { replyStyle: 'thread', messageType: 'm.notice' },
+      });
+
+      await listener(service, 'room.message')(
+        '!room:matrix.org',
+        message('$1:matrix.org', { msgtype: 'm.text', body: 'Hello' }),
+      );
+      await receivedPayloads()[0].callback({ text: 'Hi there' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        expect.objectContaining({
+          msgtype: 'm.notice',
+          body: 'Hi there',
+          'm.relates_to': expect.objectContaining({
+            rel_type: 'm.thread',
+            event_id: '$1:matrix.org',
+          }),
+        }),
+      ]);
+    });
+
+    it('should observe messages past the rate limit', async () => {
+      const service = createService({
+        '!room:matrix.org': { rateLimit: { maxResponses: 2, windowMs: 60000 } },
+      });
+      const onMessage = listener(service, 'room.message');
+
+      for (const eventId of ['$1:matrix.org', '$2:matrix.org', '$3:matrix.org']) {
+        await onMessage('!room:matrix.org', message(eventId, { msgtype: 'm.text', body: 'Hey' }));
+      }
+
+      expect(receivedPayloads()).toHaveLength(2);
+      expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+      expect(mockRuntime.createMemory.mock.calls[0][0].content.metadata.originalEvent).toBe(
+        '$3:matrix.org',
+      );
+    });
+
+    it('should not download images in rooms that limit media', async () => {
+      const service = createService({ '!room:matrix.org': { maxMediaBytes: 1024 } });
+      const downloadBuffer = vi.spyOn(service as any, 'downloadBuffer');
+
+      await listener(service, 'room.message')(
+        '!room:matrix.org',
+        message('$1:matrix.org', {
+          msgtype: 'm.image',
+          body: 'photo.png',
+          url: 'mxc://matrix.org/photo',
+          info: { mimetype: 'image/png', size: 4096 },
+        }),
+      );
+
+      const payload = receivedPayloads()[0];
+      expect(downloadBuffer).not.toHaveBeenCalled();
+      expect(payload.message.content.attachments).toBeUndefined();
+      expect(payload.message.content.text).toContain('media downloads are limited');
+    });
+  });
+});
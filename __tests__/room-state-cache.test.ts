@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RoomStateCache, isDirectRoomState } from '../src/roomStateCache';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Room State Cache', () => {
+  describe('RoomStateCache', () => {
+    let now: number;
+    let source: any;
+
+    const createCache = () => new RoomStateCache(source, { ttlMs: 1000, now: () => now });
+
+    beforeEach(() => {
+      now = 0;
+      source = {
+        getRoomState: vi.fn().mockResolvedValue([
+          { type: 'm.room.name', state_key: '', content: { name: 'General' } },
+          { type: 'm.room.topic', state_key: '', content: { topic: 'Chat' } },
+          { type: 'm.room.power_levels', state_key: '', content: { users_default: 0 } },
+        ]),
+        getJoinedRoomMembers: vi.fn().mockResolvedValue(['@alice:matrix.org', '@bot:matrix.org']),
+      };
+    });
+
+    it('should fetch a room once and serve it from the cache', async () => {
+      const cache = createCache();
+
+      const [first, second] = await Promise.all([
+        cache.get('!dm:matrix.org'),
+        cache.get('!dm:matrix.org'),
+      ]);
+      await cache.get('!dm:matrix.org');
+
+      expect(first).toBe(second);
+      expect(first.name).toBe('General');
+      expect(first.topic).toBe('Chat');
+      expect(first.powerLevels).toEqual({ users_default: 0 });
+      expect(isDirectRoomState(first)).toBe(true);
+      expect(source.getRoomState).toHaveBeenCalledTimes(1);
+      expect(source.getJoinedRoomMembers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch once the TTL has passed', async () => {
+      const cache = createCache();
+
+      await cache.get('!dm:matrix.org');
+      now = 1500;
+      await cache.get('!dm:matrix.org');
+
+      expect(source.getRoomState).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply state events from sync to cached rooms', async () => {
+      const cache = createCache();
+      const state = await cache.get('!dm:matrix.org');
+
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.room.name',
+        state_key: '',
+        content: { name: 'Renamed' },
+      });
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.room.encryption',
+        state_key: '',
+        content: { algorithm: 'm.megolm.v1.aes-sha2' },
+      });
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.room.member',
+        state_key: '@carol:matrix.org',
+        content: { membership: 'join' },
+      });
+
+      expect(state.name).toBe('Renamed');
+      expect(state.isEncrypted).toBe(true);
+      expect(state.members.size).toBe(3);
+      expect(isDirectRoomState(state)).toBe(false);
+
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.room.member',
+        state_key: '@carol:matrix.org',
+        content: { membership: 'leave' },
+      });
+      expect(isDirectRoomState(state)).toBe(true);
+      expect(source.getRoomState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark rooms bridged when bridge state arrives', async () => {
+      const cache = createCache();
+      const state = await cache.get('!dm:matrix.org');
+
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.bridge',
+        state_key: 'irc',
+        content: {},
+      });
+
+      expect(state.isBridged).toBe(true);
+    });
+
+    it('should not treat two-member rooms missing from m.direct as DMs', async () => {
+      const cache = createCache();
+      const state = await cache.get('!dm:matrix.org');
+
+      expect(isDirectRoomState(state, false)).toBe(false);
+      expect(isDirectRoomState(state, true)).toBe(true);
+    });
+
+    it('should track which memberships are marked is_direct', async () => {
+      source.getRoomState.mockResolvedValue([
+        {
+          type: 'm.room.member',
+          state_key: '@bot:matrix.org',
+          content: { membership: 'join', is_direct: true },
+        },
+        { type: 'm.room.member', state_key: '@alice:matrix.org', content: { membership: 'join' } },
+      ]);
+      const cache = createCache();
+      const state = await cache.get('!dm:matrix.org');
+
+      expect([...state.directMembers]).toEqual(['@bot:matrix.org']);
+
+      cache.applyStateEvent('!dm:matrix.org', {
+        type: 'm.room.member',
+        state_key: '@bot:matrix.org',
+        content: { membership: 'join', displayname: 'Bot' },
+      });
+      expect(state.directMembers.size).toBe(0);
+    });
+
+    it('should fetch invalidated rooms again', async () => {
+      const cache = createCache();
+
+      await cache.get('!dm:matrix.org');
+      cache.invalidate('!dm:matrix.org');
+      await cache.get('!dm:matrix.org');
+
+      expect(source.getRoomState).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    // Every room is named General
+    const createService = () =>
+      createMatrixService(
+        mockRuntime,
+        {},
+        {
+          getRoomState: vi
+            .fn()
+            .mockResolvedValue([
+              { type: 'm.room.name', state_key: '', content: { name: 'General' } },
+            ]),
+        },
+      );
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should not refetch room state for every message', async () => {
+      const service = createService();
+      const onMessage = listener(service, 'room.message');
+
+      for (const eventId of ['$1:matrix.org', '$2:matrix.org', '$3:matrix.org']) {
+        await onMessage('!room:matrix.org', {
+          type: 'm.room.message',
+          sender: '@user:matrix.org',
+          event_id: eventId,
+          content: { msgtype: 'm.text', body: 'Hello' },
+        });
+      }
+
+      expect(service.client?.getRoomState).toHaveBeenCalledTimes(1);
+      expect(service.client?.getJoinedRoomMembers).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep room info up to date from sync state events', async () => {
+      const service = createService();
+      expect((await service.getRoomInfo('!room:matrix.org')).name).toBe('General');
+
+      await listener(service, 'room.event')('!room:matrix.org', {
+        type: 'm.room.name',
+        state_key: '',
+        event_id: '$name:matrix.org',
+        sender: '@user:matrix.org',
+        content: { name: 'Announcements' },
+      });
+
+      const room = await service.getRoomInfo('!room:matrix.org');
+      expect(room.name).toBe('Announcements');
+      expect(room.memberCount).toBe(3);
+      expect(service.client?.getRoomState).toHaveBeenCalledTimes(1);
+    });
+  });
+});
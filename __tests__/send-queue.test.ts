@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SendQueue, getRetryDelay } from '../src/sendQueue';
+import { type MockRuntime, createMockRuntime, createService } from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const rateLimited = (retryAfterMs?: number) =>
+  Object.assign(new Error('M_LIMIT_EXCEEDED: Too many requests'), {
+    statusCode: 429,
+    errcode: 'M_LIMIT_EXCEEDED',
+    retryAfterMs,
+  });
+
+const serverError = () => ({ statusCode: 502, body: 'Bad Gateway' });
+
+describe('Send Queue', () => {
+  describe('getRetryDelay', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 8000 };
+
+    it('should honour retry_after_ms on rate limits', () => {
+      expect(getRetryDelay(rateLimited(4500), 1, options)).toBe(4500);
+      expect(getRetryDelay(rateLimited(), 2, options)).toBe(2000);
+    });
+
+    it('should back off exponentially on server and network errors', () => {
+      expect(getRetryDelay(serverError(), 1, options)).toBe(1000);
+      expect(getRetryDelay(serverError(), 3, options)).toBe(4000);
+      expect(getRetryDelay({ code: 'ECONNRESET' }, 6, options)).toBe(8000);
+    });
+
+    it('should not retry client errors', () => {
+      expect(getRetryDelay({ statusCode: 403, errcode: 'M_FORBIDDEN' }, 1, options)).toBeNull();
+      expect(getRetryDelay(new Error('Matrix client not available'), 1, options)).toBeNull();
+    });
+  });
+
+  describe('SendQueue', () => {
+    let transport: any;
+    let onDeadLetter: any;
+
+    const createQueue = () =>
+      new SendQueue(transport, {
+        maxAttempts: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 8000,
+        maxDeadLetters: 10,
+        onDeadLetter,
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      let count = 0;
+      transport = { send: vi.fn(async () => `$event${++count}:matrix.org`) };
+      onDeadLetter = vi.fn();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send each room in order while other rooms go ahead', async () => {
+      transport.send.mockRejectedValueOnce(rateLimited(5000));
+      const queue = createQueue();
+
+      const first = queue.send('!a:matrix.org', 'm.room.message', { body: '1' });
+      const second = queue.send('!a:matrix.org', 'm.room.message', { body: '2' });
+      const other = queue.send('!b:matrix.org', 'm.room.message', { body: 'b' });
+
+      await expect(other).resolves.toBeDefined();
+      expect(queue.size).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await Promise.all([first, second]);
+
+      const bodies = transport.send.mock.calls.map(([event]: [any]) => event.content.body);
+      expect(bodies).toEqual(['1', 'b', '1', '2']);
+    });
+
+    it('should reuse the transaction ID when retrying', async () => {
+      transport.send.mockRejectedValueOnce(serverError()).mockRejectedValueOnce(serverError());
+      const queue = createQueue();
+
+      const sent = queue.send('!a:matrix.org', 'm.room.message', { body: 'hi' });
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+      await sent;
+
+      await queue.send('!a:matrix.org', 'm.room.message', { body: 'next' });
+
+      const txnIds = transport.send.mock.calls.map(([, txnId]: [any, string]) => txnId);
+      expect(new Set(txnIds.slice(0, 3)).size).toBe(1);
+      expect(txnIds[3]).not.toBe(txnIds[0]);
+    });
+
+    it('should dead-letter events that keep failing', async () => {
+      transport.send.mockRejectedValue(serverError());
+      const queue = createQueue();
+
+      const sent = queue.send('!a:matrix.org', 'm.room.message', { body: 'lost' });
+      const result = expect(sent).rejects.toThrow('HTTP 502');
+      await vi.advanceTimersByTimeAsync(3000);
+      await result;
+
+      expect(transport.send).toHaveBeenCalledTimes(3);
+      expect(queue.getDeadLetters()).toEqual([
+        expect.objectContaining({
+          roomId: '!a:matrix.org',
+          content: { body: 'lost' },
+          attempts: 3,
+          error: 'HTTP 502',
+        }),
+      ]);
+      expect(onDeadLetter).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up on client errors straight away', async () => {
+      transport.send.mockRejectedValueOnce({ statusCode: 403, errcode: 'M_FORBIDDEN' });
+      const queue = createQueue();
+
+      await expect(queue.send('!a:matrix.org', 'm.room.message', {})).rejects.toThrow();
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      expect(queue.getDeadLetters()[0].attempts).toBe(1);
+    });
+
+    it('should drain queued events and then refuse new ones', async () => {
+      transport.send.mockRejectedValueOnce(rateLimited(1000));
+      const queue = createQueue();
+      const sent = queue.send('!a:matrix.org', 'm.room.message', { body: 'late' });
+
+      const drained = queue.drain(10000);
+      await vi.advanceTimersByTimeAsync(1000);
+      await drained;
+
+      await expect(sent).resolves.toBeDefined();
+      await expect(queue.send('!a:matrix.org', 'm.room.message', {})).rejects.toThrow(
+        'Send queue is stopped',
+      );
+    });
+
+    it('should give up on waiting events when the drain times out', async () => {
+      transport.send.mockRejectedValueOnce(rateLimited(60000));
+      const queue = createQueue();
+      const first = queue.send('!a:matrix.org', 'm.room.message', { body: '1' });
+      const second = queue.send('!a:matrix.org', 'm.room.message', { body: '2' });
+      const results = Promise.allSettled([first, second]);
+
+      const drained = queue.drain(5000);
+      await vi.advanceTimersByTimeAsync(5000);
+      await drained;
+
+      expect((await results).map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      expect(queue.getDeadLetters()).toHaveLength(2);
+    });
+
+    it('should not wait for a request in flight when the drain times out', async () => {
+      transport.send.mockReturnValueOnce(new Promise(() => undefined));
+      const queue = createQueue();
+      void queue.send('!a:matrix.org', 'm.room.message', { body: '1' });
+      const second = Promise.allSettled([
+        queue.send('!a:matrix.org', 'm.room.message', { body: '2' }),
+      ]);
+
+      const drained = queue.drain(5000);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      await expect(drained).resolves.toBeUndefined();
+      expect(await second).toEqual([
+        { status: 'rejected', reason: new Error('Send queue stopped before the event was sent') },
+      ]);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime();
+    });
+
+    it('should retry rate-limited chunks without losing or reordering them', async () => {
+      const service = createService(mockRuntime, { sendRetryMaxDelayMs: 10 });
+      const doRequest = service.client?.doRequest as any;
+      doRequest.mockRejectedValueOnce(rateLimited(5));
+
+      await service.sendTextMessage('!room:matrix.org', `${'a'.repeat(4000)}\n${'b'.repeat(100)}`);
+
+      const sends = doRequest.mock.calls.map(([method, path, , content]: any[]) => [
+        method,
+        path,
+        content.body[0],
+      ]);
+      expect(sends).toHaveLength(3);
+      expect(sends[0]).toEqual(sends[1]);
+      expect(sends[0][1]).toMatch(
+        /^\/_matrix\/client\/v3\/rooms\/!room%3Amatrix\.org\/send\/m\.room\.message\/.+/,
+      );
+      expect(sends.map(([, , body]: string[]) => body)).toEqual(['a', 'a', 'b']);
+    });
+
+    it('should log events it gives up on', async () => {
+      const service = createService(mockRuntime, { sendRetryMaxDelayMs: 10 });
+      (service.client?.doRequest as any).mockRejectedValue(serverError());
+
+      await expect(
+        service.sendEvent('!room:matrix.org', 'm.room.message', { body: 'hi' }),
+      ).rejects.toThrow('HTTP 502');
+
+      expect(service.getDeadLetters()).toHaveLength(1);
+      expect(mockRuntime.logger.error).toHaveBeenCalledWith(
+        expect.stringContaining('Gave up sending m.room.message to room !room:matrix.org'),
+      );
+    });
+  });
+});
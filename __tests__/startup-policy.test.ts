@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createUniqueUuid } from '@elizaos/core';
+import type { MatrixService } from '../src/service';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Startup Policy', () => {
+  let mockRuntime: MockRuntime;
+  let cache: Map<string, unknown>;
+  const hour = 60 * 60 * 1000;
+
+  const receive = async (service: MatrixService, eventId: string, timestamp: number) => {
+    await listener(service, 'room.message')('!room:matrix.org', {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: eventId,
+      origin_server_ts: timestamp,
+      content: { msgtype: 'm.text', body: `Message ${eventId}` },
+    });
+  };
+
+  const messagesReceived = () => emitted(mockRuntime, 'MESSAGE_RECEIVED');
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    mockRuntime.useModel.mockResolvedValue('While I was away, Alice asked about the release.');
+    cache = mockRuntime.cache;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should ignore messages from before startup by default', async () => {
+    const service = createService(mockRuntime);
+
+    await receive(service, '$old:matrix.org', Date.now() - hour);
+    await receive(service, '$new:matrix.org', Date.now() + 1000);
+
+    expect(messagesReceived()).toHaveLength(1);
+    expect(messagesReceived()[0].message.content.metadata.originalEvent).toBe('$new:matrix.org');
+  });
+
+  it('should process everything with replay-all', async () => {
+    const service = createService(mockRuntime, { startupPolicy: 'replay-all' });
+
+    await receive(service, '$old:matrix.org', Date.now() - hour);
+
+    expect(messagesReceived()).toHaveLength(1);
+    expect(messagesReceived()[0].message.content.metadata.observeOnly).toBe(false);
+  });
+
+  it('should replay missed messages as observe-only on catch-up', async () => {
+    cache.set('matrix/last-processed-events', {
+      '!room:matrix.org': { eventId: '$last:matrix.org', timestamp: Date.now() - 2 * hour },
+    });
+    const service = createService(mockRuntime, { startupPolicy: 'catch-up' });
+
+    await receive(service, '$before:matrix.org', Date.now() - 3 * hour);
+    await receive(service, '$missed:matrix.org', Date.now() - hour);
+
+    expect(messagesReceived()).toHaveLength(0);
+    expect(mockRuntime.createMemory).toHaveBeenCalledTimes(1);
+    const [memory] = mockRuntime.createMemory.mock.calls[0];
+    expect(memory.content.metadata.originalEvent).toBe('$missed:matrix.org');
+    expect(memory.content.metadata.observeOnly).toBe(true);
+    expect(sentMessages(service)).toHaveLength(0);
+  });
+
+  it('should fetch messages a limited sync timeline left out on catch-up', async () => {
+    const last = Date.now() - 3 * hour;
+    cache.set('matrix/last-processed-events', {
+      '!room:matrix.org': { eventId: '$last:matrix.org', timestamp: last },
+    });
+    // The last processed message is already in memory
+    const lastMemoryId = createUniqueUuid(mockRuntime as any, '$last:matrix.org');
+    mockRuntime.getMemoryById.mockImplementation(async (id: string) =>
+      id === lastMemoryId ? { id } : null,
+    );
+    const service = createService(mockRuntime, { startupPolicy: 'catch-up' });
+    const message = (eventId: string, timestamp: number) => ({
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: eventId,
+      origin_server_ts: timestamp,
+      content: { msgtype: 'm.text', body: `Message ${eventId}` },
+    });
+    // /messages pages back from the newest event, through the synced one
+    (service.client?.doRequest as any).mockImplementation(async (method: string, path: string) =>
+      method === 'GET' && path.endsWith('/messages')
+        ? {
+            chunk: [
+              message('$synced:matrix.org', Date.now() - hour),
+              message('$gap2:matrix.org', last + 2 * 1000),
+              message('$gap1:matrix.org', last + 1000),
+              message('$last:matrix.org', last),
+              message('$older:matrix.org', last - 1000),
+            ],
+            end: 't1',
+          }
+        : { event_id: '$sent:matrix.org' },
+    );
+
+    // The sync timeline was limited: it starts well after the last event
+    await receive(service, '$synced:matrix.org', Date.now() - hour);
+
+    const stored = mockRuntime.createMemory.mock.calls.map(([memory]: [any]) => [
+      memory.content.metadata.originalEvent,
+      memory.content.metadata.observeOnly ?? memory.content.metadata.backfilled,
+    ]);
+    expect(stored).toEqual([
+      ['$gap1:matrix.org', true],
+      ['$gap2:matrix.org', true],
+      ['$synced:matrix.org', true],
+    ]);
+    expect(messagesReceived()).toHaveLength(0);
+
+    // Only the first synced event of the room is checked
+    await receive(service, '$synced2:matrix.org', Date.now() - hour + 1000);
+    const historyRequests = (service.client?.doRequest as any).mock.calls.filter(
+      ([method]: [string]) => method === 'GET',
+    );
+    expect(historyRequests).toHaveLength(1);
+  });
+
+  it('should not replay rooms without a last processed event', async () => {
+    const service = createService(mockRuntime, { startupPolicy: 'catch-up' });
+
+    await receive(service, '$old:matrix.org', Date.now() - hour);
+
+    expect(messagesReceived()).toHaveLength(0);
+  });
+
+  it('should persist the last processed event of each room', async () => {
+    const service = createService(mockRuntime);
+    const timestamp = Date.now() + 1000;
+
+    await receive(service, '$new:matrix.org', timestamp);
+    await service.stop();
+
+    expect(cache.get('matrix/last-processed-events')).toEqual({
+      '!room:matrix.org': { eventId: '$new:matrix.org', timestamp },
+    });
+  });
+
+  it('should post a summary once catch-up finishes', async () => {
+    cache.set('matrix/last-processed-events', {
+      '!room:matrix.org': { eventId: '$last:matrix.org', timestamp: Date.now() - 2 * hour },
+    });
+    const service = createService(mockRuntime, {
+      startupPolicy: 'catch-up',
+      catchUpSummary: true,
+      renderMarkdown: false,
+    });
+    vi.useFakeTimers();
+
+    await receive(service, '$missed:matrix.org', Date.now() - hour);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(mockRuntime.useModel).toHaveBeenCalledWith(
+      'TEXT_SMALL',
+      expect.objectContaining({
+        prompt: expect.stringContaining('Test User: Message $missed:matrix.org'),
+      }),
+    );
+    expect(sentMessages(service)).toContainEqual([
+      '!room:matrix.org',
+      {
+        msgtype: 'm.text',
+        body: 'While I was away, Alice asked about the release.',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseStateChange } from '../src/stateEvents';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const stateEvent = (type: string, content: Record<string, unknown>, prevContent?: object) => ({
+  type,
+  state_key: '',
+  sender: '@admin:matrix.org',
+  event_id: `$${type}:matrix.org`,
+  content,
+  ...(prevContent ? { unsigned: { prev_content: prevContent } } : {}),
+});
+
+describe('State Events', () => {
+  describe('parseStateChange', () => {
+    it('should describe changes with their previous values', () => {
+      expect(
+        parseStateChange(stateEvent('m.room.topic', { topic: 'New' }, { topic: 'Old' })),
+      ).toEqual({ stateType: 'm.room.topic', topic: 'New', previousTopic: 'Old' });
+      expect(
+        parseStateChange(
+          stateEvent('m.room.canonical_alias', {
+            alias: '#new:matrix.org',
+            alt_aliases: ['#alt:matrix.org', 42],
+          }),
+        ),
+      ).toEqual({
+        stateType: 'm.room.canonical_alias',
+        alias: '#new:matrix.org',
+        altAliases: ['#alt:matrix.org'],
+        previousAlias: undefined,
+      });
+    });
+
+    it('should list users whose power level changed', () => {
+      const change = parseStateChange(
+        stateEvent(
+          'm.room.power_levels',
+          { users: { '@admin:matrix.org': 100, '@mod:matrix.org': 50 } },
+          { users: { '@admin:matrix.org': 100, '@old:matrix.org': 50 } },
+        ),
+      );
+
+      expect(change).toMatchObject({
+        stateType: 'm.room.power_levels',
+        changedUsers: {
+          '@mod:matrix.org': { from: undefined, to: 50 },
+          '@old:matrix.org': { from: 50, to: undefined },
+        },
+      });
+    });
+
+    it('should ignore other events and malformed content', () => {
+      expect(parseStateChange(stateEvent('m.room.history_visibility', {}))).toBeNull();
+      expect(parseStateChange({ type: 'm.room.name', content: { name: 'x' } })).toBeNull();
+      expect(parseStateChange(stateEvent('m.room.join_rules', {}))).toBeNull();
+    });
+  });
+
+  describe('MatrixService', () => {
+    let mockRuntime: MockRuntime;
+
+    const stateChanges = () => emitted(mockRuntime, 'MATRIX_STATE_CHANGED');
+
+    // Rooms start out named Old Name and invite-only
+    const createService = () =>
+      createMatrixService(
+        mockRuntime,
+        {},
+        {
+          getRoomState: vi.fn().mockResolvedValue([
+            { type: 'm.room.name', state_key: '', content: { name: 'Old Name' } },
+            { type: 'm.room.join_rules', state_key: '', content: { join_rule: 'invite' } },
+          ]),
+        },
+      );
+
+    beforeEach(() => {
+      mockRuntime = createMockRuntime(
+        {},
+        {
+          getWorld: vi.fn().mockResolvedValue({ id: 'world-id', name: 'Old Name' }),
+          updateWorld: vi.fn().mockResolvedValue(undefined),
+          getRoom: vi.fn().mockResolvedValue({ id: 'room-id', name: 'Old Name' }),
+          updateRoom: vi.fn().mockResolvedValue(undefined),
+        },
+      );
+    });
+
+    it('should rename the world and room and update the cache', async () => {
+      const service = createService();
+      await service.getRoomInfo('!room:matrix.org');
+
+      await listener(service, 'room.event')(
+        '!room:matrix.org',
+        stateEvent('m.room.name', { name: 'New Name' }, { name: 'Old Name' }),
+      );
+
+      expect(stateChanges()).toEqual([
+        expect.objectContaining({
+          roomId: '!room:matrix.org',
+          sender: '@admin:matrix.org',
+          stateType: 'm.room.name',
+          name: 'New Name',
+          previousName: 'Old Name',
+        }),
+      ]);
+      expect(mockRuntime.updateWorld).toHaveBeenCalledWith({ id: 'world-id', name: 'New Name' });
+      expect(mockRuntime.updateRoom).toHaveBeenCalledWith({ id: 'room-id', name: 'New Name' });
+      expect((await service.getRoomInfo('!room:matrix.org')).name).toBe('New Name');
+      expect(service.client?.getRoomState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report encryption and join rule changes', async () => {
+      const service = createService();
+      const onEvent = listener(service, 'room.event');
+
+      await onEvent(
+        '!room:matrix.org',
+        stateEvent('m.room.encryption', { algorithm: 'm.megolm.v1.aes-sha2' }),
+      );
+      await onEvent(
+        '!room:matrix.org',
+        stateEvent('m.room.join_rules', { join_rule: 'public' }, { join_rule: 'invite' }),
+      );
+      await onEvent('!room:matrix.org', stateEvent('m.room.history_visibility', {}));
+
+      expect(stateChanges().map((payload: any) => payload.stateType)).toEqual([
+        'm.room.encryption',
+        'm.room.join_rules',
+      ]);
+      expect(stateChanges()[1]).toMatchObject({ joinRule: 'public', previousJoinRule: 'invite' });
+      expect(mockRuntime.updateWorld).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { StreamingReply } from '../src/streaming';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService as createMatrixService,
+  emitted,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const createTransport = () => {
+  let count = 0;
+  return {
+    send: vi.fn(async () => `$event${++count}:matrix.org`),
+    edit: vi.fn(async () => '$edit:matrix.org'),
+  };
+};
+
+const createOptions = (overrides: Record<string, unknown> = {}) => ({
+  editIntervalMs: 1000,
+  split: (text: string) => [text],
+  ...overrides,
+});
+
+describe('StreamingReply', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send the first chunk right away and edit with later ones', async () => {
+    const transport = createTransport();
+    const reply = new StreamingReply(transport, createOptions());
+
+    await reply.append('Hello');
+    expect(transport.send).toHaveBeenCalledWith('Hello');
+
+    await reply.append('world');
+    expect(transport.edit).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.edit).toHaveBeenCalledWith('$event1:matrix.org', 'Hello\n\nworld');
+  });
+
+  it('should throttle edits to one per interval and always send the last one', async () => {
+    const transport = createTransport();
+    const reply = new StreamingReply(transport, createOptions());
+
+    await reply.append('a');
+    for (const chunk of ['b', 'c', 'd']) {
+      await reply.append(chunk);
+    }
+    await vi.advanceTimersByTimeAsync(1000);
+    await reply.append('e');
+    await vi.advanceTimersByTimeAsync(999);
+
+    expect(transport.edit).toHaveBeenCalledTimes(1);
+    expect(transport.edit).toHaveBeenCalledWith('$event1:matrix.org', 'a\n\nb\n\nc\n\nd');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.edit).toHaveBeenCalledTimes(2);
+    expect(transport.edit).toHaveBeenLastCalledWith('$event1:matrix.org', 'a\n\nb\n\nc\n\nd\n\ne');
+    expect(transport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue past the size limit in new messages', async () => {
+    const transport = createTransport();
+    const onSent = vi.fn();
+    const reply = new StreamingReply(
+      transport,
+      createOptions({
+        split: (text: string) => text.match(/[^]{1,5}/g) ?? [],
+        onSent,
+      }),
+    );
+
+    await reply.append('abcdefghij');
+
+    expect(transport.send).toHaveBeenCalledWith('abcde');
+    expect(transport.send).toHaveBeenLastCalledWith('fghij');
+    expect(transport.edit).not.toHaveBeenCalled();
+    expect(onSent).toHaveBeenCalledWith(['$event1:matrix.org', '$event2:matrix.org']);
+  });
+
+  it('should send pending text at once when finished', async () => {
+    const transport = createTransport();
+    const reply = new StreamingReply(transport, createOptions());
+
+    await reply.append('Draft');
+    await reply.append('Final');
+    await reply.finish();
+
+    expect(transport.edit).toHaveBeenCalledWith('$event1:matrix.org', 'Draft\n\nFinal');
+    await reply.append('Too late');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.edit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep going after a failed edit', async () => {
+    const transport = createTransport();
+    transport.edit.mockRejectedValueOnce(new Error('M_LIMIT_EXCEEDED'));
+    const onError = vi.fn();
+    const reply = new StreamingReply(transport, createOptions({ onError }));
+
+    await reply.append('a');
+    await reply.append('b');
+    await vi.advanceTimersByTimeAsync(1000);
+    await reply.append('c');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(transport.edit).toHaveBeenLastCalledWith('$event1:matrix.org', 'a\n\nb\n\nc');
+  });
+});
+
+describe('Matrix Streaming Replies', () => {
+  let mockRuntime: MockRuntime;
+  let messageCount: number;
+
+  const createService = (matrixSettings: Record<string, unknown> = {}) => {
+    const service = createMatrixService(mockRuntime, {
+      streamReplies: true,
+      streamEditIntervalMs: 1000,
+      ...matrixSettings,
+    });
+    let eventCount = 0;
+    (service.client?.doRequest as any).mockImplementation(async () => ({
+      event_id: `$event${++eventCount}:matrix.org`,
+    }));
+    return service;
+  };
+
+  // The callback the service hands the message handlers for a new message
+  const receive = async (service: MatrixService, roomId = '!room:matrix.org') => {
+    await listener(service, 'room.message')(roomId, {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: `$message${++messageCount}:matrix.org`,
+      content: { msgtype: 'm.text', body: 'Tell me a story' },
+    });
+    return emitted(mockRuntime, 'MESSAGE_RECEIVED').at(-1).callback;
+  };
+
+  const edits = (service: MatrixService) =>
+    sentMessages(service)
+      .map(([, content]: [string, any]) => content)
+      .filter((content: any) => content['m.relates_to']?.rel_type === 'm.replace');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockRuntime = createMockRuntime();
+    messageCount = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stream chunks into one message through throttled edits', async () => {
+    const service = createService();
+    const callback = await receive(service);
+
+    await callback({ text: 'Once upon a time' });
+    await callback({ text: 'there was a bot' });
+    await callback({ text: 'The end' });
+
+    expect(sentMessages(service)).toEqual([
+      ['!room:matrix.org', expect.objectContaining({ body: 'Once upon a time' })],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(edits(service)).toEqual([
+      expect.objectContaining({
+        'm.new_content': expect.objectContaining({
+          body: 'Once upon a time\n\nthere was a bot\n\nThe end',
+        }),
+        'm.relates_to': { rel_type: 'm.replace', event_id: '$event1:matrix.org' },
+      }),
+    ]);
+  });
+
+  it('should send chunks one by one in rooms that do not render edits', async () => {
+    const service = createService({ streamDisabledRoomIds: ['!bridged:matrix.org'] });
+    const callback = await receive(service, '!bridged:matrix.org');
+
+    await callback({ text: 'Once upon a time' });
+    await callback({ text: 'The end' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sentMessages(service)).toEqual([
+      ['!bridged:matrix.org', expect.objectContaining({ body: 'Once upon a time' })],
+      ['!bridged:matrix.org', expect.objectContaining({ body: 'The end' })],
+    ]);
+    expect(edits(service)).toEqual([]);
+  });
+
+  it('should not stream unless streamReplies is set', async () => {
+    const service = createService({ streamReplies: false });
+    const callback = await receive(service);
+
+    await callback({ text: 'Once upon a time' });
+    await callback({ text: 'The end' });
+
+    expect(sentMessages(service)).toHaveLength(2);
+    expect(edits(service)).toEqual([]);
+  });
+
+  it('should send the final edit when the service stops', async () => {
+    const service = createService();
+    const callback = await receive(service);
+
+    await callback({ text: 'Once upon a time' });
+    await callback({ text: 'The end' });
+    const doRequest = service.client?.doRequest as any;
+    await service.stop();
+
+    const [, , , lastSent] = doRequest.mock.calls.at(-1);
+    expect(lastSent).toEqual(
+      expect.objectContaining({
+        'm.new_content': expect.objectContaining({ body: 'Once upon a time\n\nThe end' }),
+        'm.relates_to': { rel_type: 'm.replace', event_id: '$event1:matrix.org' },
+      }),
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { createUniqueUuid } from '@elizaos/core';
+import matrixPlugin from '../src/index';
+import {
+  type MockRuntime,
+  createMockRuntime,
+  createService,
+  listener,
+  sentMessages,
+} from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+describe('Matrix Threads and Replies', () => {
+  let mockRuntime: MockRuntime;
+
+  const receive = async (service: MatrixService, content: Record<string, unknown>) => {
+    await listener(service, 'room.message')('!room:matrix.org', {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: '$question:matrix.org',
+      content: { msgtype: 'm.text', body: 'Hello there', ...content },
+    });
+    return mockRuntime.emitEvent.mock.calls[0][1];
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+  });
+
+  describe('Threads', () => {
+    it('should record the thread root in memory metadata', async () => {
+      const service = createService(mockRuntime);
+      const payload = await receive(service, {
+        'm.relates_to': { rel_type: 'm.thread', event_id: '$root:matrix.org' },
+      });
+
+      expect(payload.message.content.metadata.threadId).toBe('$root:matrix.org');
+    });
+
+    it('should answer thread messages inside the same thread', async () => {
+      const service = createService(mockRuntime);
+      const payload = await receive(service, {
+        'm.relates_to': { rel_type: 'm.thread', event_id: '$root:matrix.org' },
+      });
+
+      await payload.callback({ text: 'Thread answer' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.text',
+          body: 'Thread answer',
+          'm.relates_to': {
+            rel_type: 'm.thread',
+            event_id: '$root:matrix.org',
+            is_falling_back: true,
+            'm.in_reply_to': { event_id: '$question:matrix.org' },
+          },
+        },
+      ]);
+    });
+
+    it('should answer top-level messages at the top level by default', async () => {
+      const service = createService(mockRuntime);
+      const payload = await receive(service, {});
+
+      await payload.callback({ text: 'Plain answer' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.text',
+          body: 'Plain answer',
+        },
+      ]);
+    });
+
+    it('should start a thread when alwaysReplyInThread is set', async () => {
+      const service = createService(mockRuntime, { alwaysReplyInThread: true });
+      const payload = await receive(service, {});
+
+      await payload.callback({ text: 'Threaded answer' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        expect.objectContaining({
+          'm.relates_to': expect.objectContaining({
+            rel_type: 'm.thread',
+            event_id: '$question:matrix.org',
+          }),
+        }),
+      ]);
+    });
+
+    it('should send into the target thread from the send handler', async () => {
+      const service = createService(mockRuntime);
+
+      await service.handleSendMessage(
+        mockRuntime as any,
+        { source: 'matrix', channelId: '!room:matrix.org', threadId: '$root:matrix.org' } as any,
+        { text: 'Follow-up' },
+      );
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        expect.objectContaining({
+          'm.relates_to': expect.objectContaining({
+            rel_type: 'm.thread',
+            event_id: '$root:matrix.org',
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe('Rich Replies', () => {
+    it('should quote the triggering message when replyToMessages is set', async () => {
+      const service = createService(mockRuntime, { replyToMessages: true });
+      const payload = await receive(service, {});
+
+      await payload.callback({ text: 'Reply' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        {
+          msgtype: 'm.text',
+          body: 'Reply',
+          'm.relates_to': { 'm.in_reply_to': { event_id: '$question:matrix.org' } },
+        },
+      ]);
+    });
+
+    it('should reply inside threads without the thread fallback', async () => {
+      const service = createService(mockRuntime, { replyToMessages: true });
+      const payload = await receive(service, {
+        'm.relates_to': { rel_type: 'm.thread', event_id: '$root:matrix.org' },
+      });
+
+      await payload.callback({ text: 'Reply' });
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        expect.objectContaining({
+          'm.relates_to': {
+            rel_type: 'm.thread',
+            event_id: '$root:matrix.org',
+            is_falling_back: false,
+            'm.in_reply_to': { event_id: '$question:matrix.org' },
+          },
+        }),
+      ]);
+    });
+
+    it('should map inbound replies to the replied-to memory', async () => {
+      const service = createService(mockRuntime);
+      const payload = await receive(service, {
+        'm.relates_to': { 'm.in_reply_to': { event_id: '$original:matrix.org' } },
+      });
+
+      expect(payload.message.content.inReplyTo).toBe(
+        createUniqueUuid(mockRuntime as any, '$original:matrix.org'),
+      );
+      expect(payload.message.content.metadata.replyToEventId).toBe('$original:matrix.org');
+    });
+
+    it('should send SEND_MESSAGE replies with m.in_reply_to', async () => {
+      const service = createService(mockRuntime);
+      mockRuntime.getService.mockReturnValue(service);
+      const sendMessage = matrixPlugin.actions.find((a) => a.name === 'SEND_MESSAGE')!;
+
+      await sendMessage.handler(
+        mockRuntime as any,
+        {
+          content: {
+            text: 'Answer',
+            roomId: '!room:matrix.org',
+            replyToEventId: '$question:matrix.org',
+          },
+        } as any,
+      );
+
+      expect(sentMessages(service)).toContainEqual([
+        '!room:matrix.org',
+        expect.objectContaining({
+          'm.relates_to': { 'm.in_reply_to': { event_id: '$question:matrix.org' } },
+        }),
+      ]);
+    });
+  });
+});
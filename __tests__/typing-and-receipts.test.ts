@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { MatrixService } from '../src/service';
+import { TypingIndicator } from '../src/typing';
+import { type MockRuntime, createMockRuntime, createService, listener } from './helpers/service';
+
+vi.mock('matrix-bot-sdk', () => import('./helpers/matrixSdk'));
+
+const createOptions = () => ({
+  timeoutMs: 30000,
+  renewIntervalMs: 25000,
+  maxDurationMs: 120000,
+});
+
+describe('TypingIndicator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start typing and renew it before the server timeout', async () => {
+    const transport = { setTyping: vi.fn().mockResolvedValue({}) };
+    const typing = new TypingIndicator(transport, createOptions());
+
+    typing.start('!room:matrix.org');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(transport.setTyping).toHaveBeenCalledWith('!room:matrix.org', true, 30000);
+
+    await vi.advanceTimersByTimeAsync(25000);
+    expect(transport.setTyping).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep typing until every message in the room is released', async () => {
+    const transport = { setTyping: vi.fn().mockResolvedValue({}) };
+    const typing = new TypingIndicator(transport, createOptions());
+
+    const first = typing.start('!room:matrix.org');
+    const second = typing.start('!room:matrix.org');
+    first();
+    first();
+    expect(typing.isTyping('!room:matrix.org')).toBe(true);
+
+    second();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(typing.isTyping('!room:matrix.org')).toBe(false);
+    expect(transport.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000);
+  });
+
+  it('should stop typing when the deadline passes', async () => {
+    const transport = { setTyping: vi.fn().mockResolvedValue({}) };
+    const typing = new TypingIndicator(transport, createOptions());
+
+    typing.start('!room:matrix.org');
+    await vi.advanceTimersByTimeAsync(120000);
+
+    expect(typing.isTyping('!room:matrix.org')).toBe(false);
+    expect(transport.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000);
+  });
+
+  it('should report failed notifications', async () => {
+    const onError = vi.fn();
+    const transport = {
+      setTyping: vi.fn().mockRejectedValue(new Error('offline')),
+    };
+    const typing = new TypingIndicator(transport, {
+      ...createOptions(),
+      onError,
+    });
+
+    typing.start('!room:matrix.org');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onError).toHaveBeenCalled();
+  });
+});
+
+describe('Matrix Typing and Read Receipts', () => {
+  let mockRuntime: MockRuntime;
+  let finishHandlers: () => void;
+
+  const receive = async (service: MatrixService) => {
+    await listener(service, 'room.message')('!room:matrix.org', {
+      type: 'm.room.message',
+      sender: '@user:matrix.org',
+      event_id: '$question:matrix.org',
+      content: { msgtype: 'm.text', body: 'Hello there' },
+    });
+    return mockRuntime.emitEvent.mock.calls[0][1];
+  };
+
+  beforeEach(() => {
+    mockRuntime = createMockRuntime();
+    mockRuntime.emitEvent.mockImplementation(
+      () =>
+        new Promise<void>((resolve) => {
+          finishHandlers = resolve;
+        }),
+    );
+  });
+
+  it('should send a read receipt and start typing for inbound messages', async () => {
+    const service = createService(mockRuntime);
+    await receive(service);
+
+    expect(service.client?.sendReadReceipt).toHaveBeenCalledWith(
+      '!room:matrix.org',
+      '$question:matrix.org',
+    );
+    await vi.waitFor(() =>
+      expect(service.client?.setTyping).toHaveBeenCalledWith('!room:matrix.org', true, 30000),
+    );
+  });
+
+  it('should stop typing when the reply is sent', async () => {
+    const service = createService(mockRuntime);
+    const payload = await receive(service);
+
+    await payload.callback({ text: 'Hi!' });
+
+    expect(service.client?.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000);
+  });
+
+  it('should stop typing when the handlers finish without replying', async () => {
+    const service = createService(mockRuntime);
+    await receive(service);
+
+    finishHandlers();
+
+    await vi.waitFor(() =>
+      expect(service.client?.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000),
+    );
+  });
+
+  it('should stop typing when the handlers fail', async () => {
+    mockRuntime.emitEvent.mockRejectedValueOnce(new Error('model unavailable'));
+    const service = createService(mockRuntime);
+    await receive(service);
+
+    await vi.waitFor(() =>
+      expect(service.client?.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000),
+    );
+    expect(mockRuntime.logger.error).toHaveBeenCalled();
+  });
+
+  it('should stop typing on stop()', async () => {
+    const service = createService(mockRuntime);
+    const client = service.client as any;
+    await receive(service);
+
+    await service.stop();
+
+    await vi.waitFor(() =>
+      expect(client.setTyping).toHaveBeenLastCalledWith('!room:matrix.org', false, 30000),
+    );
+  });
+
+  it('should respect the settings that turn both off', async () => {
+    const service = createService(mockRuntime, {
+      sendTypingIndicators: false,
+      sendReadReceipts: false,
+    });
+    const payload = await receive(service);
+    await payload.callback({ text: 'Hi!' });
+
+    expect(service.client?.sendReadReceipt).not.toHaveBeenCalled();
+    expect(service.client?.setTyping).not.toHaveBeenCalled();
+  });
+});
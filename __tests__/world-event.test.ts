@@ -11,9 +11,9 @@ vi.mock('matrix-bot-sdk', () => ({
     getRoomState: vi.fn().mockResolvedValue([
       { type: 'm.room.name', content: { name: 'Test Room' } }
     ]),
-    getRoomMembers: vi.fn().mockResolvedValue([
-      { userId: '@user1:matrix.org' },
-      { userId: '@user2:matrix.org' }
+    getJoinedRoomMembers: vi.fn().mockResolvedValue([
+      '@user1:matrix.org',
+      '@user2:matrix.org'
     ]),
     getAccountData: vi.fn().mockRejectedValue(new Error('No account data')),
     on: vi.fn(),
@@ -0,0 +1,94 @@
+import {
+  Action,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  logger,
+} from "@elizaos/core";
+import { MatrixService } from "../service";
+
+export const allowRoom: Action = {
+  name: "ALLOW_ROOM",
+  similes: ["MATRIX_ALLOW_ROOM", "ALLOWLIST_ROOM", "ENABLE_ROOM"],
+  description:
+    "Add a Matrix room to the bot's room allowlist, so the bot responds there; the allowlist is kept across restarts",
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    // Check if Matrix service is available
+    const service = runtime.getService(
+      MatrixService.serviceType,
+    ) as MatrixService;
+    if (!service?.client) {
+      return false;
+    }
+
+    const content = message.content;
+    // If no content provided, this is likely an availability check - return true if service is ready
+    if (!content || Object.keys(content).length === 0) {
+      return true;
+    }
+
+    // If content is provided, validate required parameters
+    return !!(content.roomId || content.roomAlias);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        MatrixService.serviceType,
+      ) as MatrixService;
+      if (!service?.client) {
+        logger.error("Matrix service not available");
+        return { success: false };
+      }
+
+      // The allowlist outlives the conversation, so only admins change it
+      if (!service.isRoomAdmin(message.entityId)) {
+        logger.warn(
+          "Refusing to allow a room: the request did not come from a room admin",
+        );
+        return { success: false };
+      }
+
+      const { roomId: roomIdentifier, roomAlias } = message.content;
+
+      if (!roomIdentifier && !roomAlias) {
+        logger.error("Missing required content: roomId or roomAlias");
+        return { success: false };
+      }
+
+      const roomId = await service.client.resolveRoom(
+        (roomIdentifier || roomAlias) as string,
+      );
+      service.addAllowedRoom(roomId);
+
+      logger.success(`Added room ${roomId} to the allowlist`);
+      return { success: true };
+    } catch (error) {
+      logger.error(`Failed to allow room: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "You can talk in the support room from now on" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll start responding in the support room.",
+          action: "ALLOW_ROOM",
+          roomId: "!support:matrix.org",
+        },
+      },
+    ],
+  ],
+};
+
+export default allowRoom;
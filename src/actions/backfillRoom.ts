@@ -0,0 +1,110 @@
+import {
+  Action,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  logger,
+} from "@elizaos/core";
+import { MatrixService } from "../service";
+
+export const backfillRoom: Action = {
+  name: "BACKFILL_ROOM",
+  similes: ["MATRIX_BACKFILL", "IMPORT_ROOM_HISTORY", "LOAD_ROOM_HISTORY"],
+  description:
+    "Import a Matrix room's message history into memory, either the last N messages or everything since a date",
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    // Check if Matrix service is available
+    const service = runtime.getService(
+      MatrixService.serviceType,
+    ) as MatrixService;
+    if (!service?.client) {
+      return false;
+    }
+
+    const content = message.content;
+    // If no content provided, this is likely an availability check - return true if service is ready
+    if (!content || Object.keys(content).length === 0) {
+      return true;
+    }
+
+    // If content is provided, validate required parameters
+    return !!content.roomId;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        MatrixService.serviceType,
+      ) as MatrixService;
+      if (!service?.client) {
+        logger.error("Matrix service not available");
+        return { success: false };
+      }
+
+      const { roomId, limit, since } = message.content;
+
+      if (!roomId) {
+        logger.error("Missing required content: roomId");
+        return { success: false };
+      }
+
+      const sinceDate = since ? new Date(since as string | number) : undefined;
+      if (sinceDate && isNaN(sinceDate.getTime())) {
+        logger.error(`Invalid date for since: ${since}`);
+        return { success: false };
+      }
+
+      const result = await service.backfillRoom(roomId as string, {
+        limit: limit ? Number(limit) : undefined,
+        since: sinceDate,
+      });
+
+      logger.success(
+        `Backfilled room ${roomId}: imported ${result.imported} messages`,
+      );
+      return { success: true };
+    } catch (error) {
+      logger.error(`Failed to backfill room: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Read the last 200 messages in #general" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll catch up on the room history.",
+          action: "BACKFILL_ROOM",
+          roomId: "!general:matrix.org",
+          limit: 200,
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Load everything in this room since Monday" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "Importing the messages since Monday.",
+          action: "BACKFILL_ROOM",
+          roomId: "!project:matrix.org",
+          since: "2024-01-15T00:00:00Z",
+        },
+      },
+    ],
+  ],
+};
+
+export default backfillRoom;
@@ -0,0 +1,107 @@
+import {
+  Action,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  logger,
+} from "@elizaos/core";
+import { MatrixService } from "../service";
+
+export const disallowRoom: Action = {
+  name: "DISALLOW_ROOM",
+  similes: ["MATRIX_DISALLOW_ROOM", "UNALLOW_ROOM", "DISABLE_ROOM"],
+  description:
+    "Remove a Matrix room from the bot's room allowlist, so the bot ignores it without leaving; rooms from MATRIX_ROOM_IDS cannot be removed",
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    // Check if Matrix service is available
+    const service = runtime.getService(
+      MatrixService.serviceType,
+    ) as MatrixService;
+    if (!service?.client) {
+      return false;
+    }
+
+    const content = message.content;
+    // If no content provided, this is likely an availability check - return true if service is ready
+    if (!content || Object.keys(content).length === 0) {
+      return true;
+    }
+
+    // If content is provided, validate required parameters
+    return !!(content.roomId || content.roomAlias);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        MatrixService.serviceType,
+      ) as MatrixService;
+      if (!service?.client) {
+        logger.error("Matrix service not available");
+        return { success: false };
+      }
+
+      // The allowlist outlives the conversation, so only admins change it
+      if (!service.isRoomAdmin(message.entityId)) {
+        logger.warn(
+          "Refusing to disallow a room: the request did not come from a room admin",
+        );
+        return { success: false };
+      }
+
+      const { roomId: roomIdentifier, roomAlias } = message.content;
+
+      if (!roomIdentifier && !roomAlias) {
+        logger.error("Missing required content: roomId or roomAlias");
+        return { success: false };
+      }
+
+      const roomId = await service.client.resolveRoom(
+        (roomIdentifier || roomAlias) as string,
+      );
+
+      const entry = service
+        .getAllowedRoomEntries()
+        .find((allowed) => allowed.roomId === roomId);
+      if (entry?.source === "env") {
+        logger.error(
+          `Room ${roomId} is listed in MATRIX_ROOM_IDS and cannot be removed`,
+        );
+        return { success: false };
+      }
+      if (!service.removeAllowedRoom(roomId)) {
+        logger.warn(`Room ${roomId} was not in the allowlist`);
+        return { success: false };
+      }
+
+      logger.success(`Removed room ${roomId} from the allowlist`);
+      return { success: true };
+    } catch (error) {
+      logger.error(`Failed to disallow room: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Stop responding in the off-topic room" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll stop responding in the off-topic room.",
+          action: "DISALLOW_ROOM",
+          roomId: "!offtopic:matrix.org",
+        },
+      },
+    ],
+  ],
+};
+
+export default disallowRoom;
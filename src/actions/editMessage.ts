@@ -0,0 +1,83 @@
+import {
+  Action,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  logger,
+} from "@elizaos/core";
+import { MatrixService } from "../service";
+
+export const editMessage: Action = {
+  name: "EDIT_MESSAGE",
+  similes: ["MATRIX_EDIT", "EDIT_MATRIX_MESSAGE", "CORRECT_MESSAGE"],
+  description: "Edit a message the bot previously sent to a Matrix room",
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    // Check if Matrix service is available
+    const service = runtime.getService(
+      MatrixService.serviceType,
+    ) as MatrixService;
+    if (!service?.client) {
+      return false;
+    }
+
+    const content = message.content;
+    // If no content provided, this is likely an availability check - return true if service is ready
+    if (!content || Object.keys(content).length === 0) {
+      return true;
+    }
+
+    // If content is provided, validate required parameters
+    return !!(content.eventId && content.roomId && content.text);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        MatrixService.serviceType,
+      ) as MatrixService;
+      if (!service?.client) {
+        logger.error("Matrix service not available");
+        return { success: false };
+      }
+
+      const { eventId, roomId, text } = message.content;
+
+      if (!eventId || !roomId || !text) {
+        logger.error("Missing required content: eventId, roomId, and text");
+        return { success: false };
+      }
+
+      await service.editMessage(roomId as string, eventId as string, text);
+
+      logger.success(`Edited message ${eventId} in room ${roomId}`);
+      return { success: true };
+    } catch (error) {
+      logger.error(`Failed to edit message: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Fix the typo in your last message" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "The meeting is on Thursday.",
+          action: "EDIT_MESSAGE",
+          eventId: "$example:matrix.org",
+          roomId: "!general:matrix.org",
+        },
+      },
+    ],
+  ],
+};
+
+export default editMessage;
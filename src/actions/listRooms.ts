@@ -61,24 +61,16 @@ export const listRooms: Action = {
 
       for (const roomId of joinedRooms) {
         try {
+          // Served from the room state cache
           const roomInfo = await service.getRoomInfo(roomId);
-          const roomState = await service.client.getRoomState(roomId);
-
-          // Check if encrypted
-          const isEncrypted = roomState.some(
-            (event) => event.type === "m.room.encryption",
-          );
-
-          // Get member count
-          const members = await service.client.getRoomMembers(roomId);
 
           const roomDetails = [
             `📍 ${roomInfo.name || roomId}`,
             `   ID: ${roomId}`,
             roomInfo.topic ? `   Topic: ${roomInfo.topic}` : "",
-            `   Members: ${members.length}`,
+            `   Members: ${roomInfo.memberCount}`,
             `   Type: ${roomInfo.isDirect ? "DM" : "Group"}`,
-            `   Encrypted: ${isEncrypted ? "🔒 Yes" : "🔓 No"}`,
+            `   Encrypted: ${roomInfo.isEncrypted ? "🔒 Yes" : "🔓 No"}`,
             `   Allowed: ${service.isRoomAllowed(roomId) ? "✅ Yes" : "❌ No"}`,
           ]
             .filter(Boolean)
@@ -52,7 +52,7 @@ export const reactToMessage: Action = {
       }
 
       // Send reaction using Matrix annotation relation
-      await service.client.sendEvent(roomId as string, "m.reaction", {
+      await service.sendEvent(roomId as string, "m.reaction", {
         "m.relates_to": {
           rel_type: "m.annotation",
           event_id: eventId,
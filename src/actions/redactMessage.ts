@@ -0,0 +1,89 @@
+import {
+  Action,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  logger,
+} from "@elizaos/core";
+import { MatrixService } from "../service";
+
+export const redactMessage: Action = {
+  name: "REDACT_MESSAGE",
+  similes: ["MATRIX_REDACT", "DELETE_MESSAGE", "REMOVE_MESSAGE"],
+  description:
+    "Redact (delete) a Matrix message sent by the bot, or by others when the bot has the power level to do so",
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<boolean> => {
+    // Check if Matrix service is available
+    const service = runtime.getService(
+      MatrixService.serviceType,
+    ) as MatrixService;
+    if (!service?.client) {
+      return false;
+    }
+
+    const content = message.content;
+    // If no content provided, this is likely an availability check - return true if service is ready
+    if (!content || Object.keys(content).length === 0) {
+      return true;
+    }
+
+    // If content is provided, validate required parameters
+    return !!(content.eventId && content.roomId);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService(
+        MatrixService.serviceType,
+      ) as MatrixService;
+      if (!service?.client) {
+        logger.error("Matrix service not available");
+        return { success: false };
+      }
+
+      const { eventId, roomId, reason } = message.content;
+
+      if (!eventId || !roomId) {
+        logger.error("Missing required content: eventId and roomId");
+        return { success: false };
+      }
+
+      await service.redactMessage(
+        roomId as string,
+        eventId as string,
+        reason as string | undefined,
+      );
+
+      logger.success(`Redacted event ${eventId} in room ${roomId}`);
+      return { success: true };
+    } catch (error) {
+      logger.error(`Failed to redact message: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Please delete that spam message" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll remove it.",
+          action: "REDACT_MESSAGE",
+          eventId: "$spam:matrix.org",
+          roomId: "!general:matrix.org",
+          reason: "Spam",
+        },
+      },
+    ],
+  ],
+};
+
+export default redactMessage;
@@ -47,7 +47,7 @@ export const sendImageMessage: Action = {
 
       // If text is provided, send it first
       if (text) {
-        await service.client.sendMessage(roomId as string, {
+        await service.sendEvent(roomId as string, "m.room.message", {
           msgtype: MATRIX_MESSAGE_TYPES.TEXT,
           body: text,
         });
@@ -168,7 +168,11 @@ export const sendImageMessage: Action = {
         },
       };
 
-      await service.client.sendMessage(roomId as string, messageContent);
+      await service.sendEvent(
+        roomId as string,
+        "m.room.message",
+        messageContent,
+      );
 
       logger.success(`Image sent to room ${roomId}: ${mxcUrl}`);
       return true;
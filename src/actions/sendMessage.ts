@@ -6,7 +6,6 @@ import {
   logger,
 } from "@elizaos/core";
 import { MatrixService } from "../service";
-import { MATRIX_MESSAGE_TYPES } from "../constants";
 
 export const sendMessage: Action = {
   name: "SEND_MESSAGE",
@@ -45,16 +44,15 @@ export const sendMessage: Action = {
         return false;
       }
 
-      const { text, roomId } = message.content;
+      const { text, roomId, replyToEventId } = message.content;
 
       if (!text || !roomId) {
         logger.error("Missing required content: text and roomId");
         return false;
       }
 
-      await service.client.sendMessage(roomId as string, {
-        msgtype: MATRIX_MESSAGE_TYPES.TEXT,
-        body: text,
+      await service.sendTextMessage(roomId as string, text, {
+        replyToEventId: replyToEventId as string | undefined,
       });
 
       logger.success(`Message sent to room ${roomId}`);
@@ -79,6 +77,21 @@ export const sendMessage: Action = {
         },
       },
     ],
+    [
+      {
+        name: "{{user1}}",
+        content: { text: "Answer Bob's question in the general room" },
+      },
+      {
+        name: "{{user2}}",
+        content: {
+          text: "I'll reply to his message.",
+          action: "SEND_MESSAGE",
+          roomId: "!general:matrix.org",
+          replyToEventId: "$question:matrix.org",
+        },
+      },
+    ],
   ],
 };
 
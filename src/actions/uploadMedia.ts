@@ -128,7 +128,11 @@ export const uploadMedia: Action = {
         messageContent.info.h = undefined;
       }
 
-      await service.client.sendMessage(roomId as string, messageContent);
+      await service.sendEvent(
+        roomId as string,
+        "m.room.message",
+        messageContent,
+      );
 
       logger.success(`Media uploaded and sent to room ${roomId}: ${mxcUrl}`);
       return true;
@@ -0,0 +1,88 @@
+import type { MatrixClient } from "matrix-bot-sdk";
+import { MATRIX_EVENT_TYPES } from "./constants";
+import type { MatrixMessageContent } from "./types";
+
+/**
+ * Options for fetching room history
+ */
+export interface RoomHistoryOptions {
+  /** Most message events to return; unlimited when unset */
+  limit?: number;
+  /** Only return events sent after this time (epoch milliseconds) */
+  since?: number;
+  /** Only return events sent before this time (epoch milliseconds) */
+  until?: number;
+  /** Events requested per /messages call (default: 100) */
+  pageSize?: number;
+}
+
+/**
+ * A message event as /messages returns it. Encrypted events carry their
+ * ciphertext as content until they are decrypted.
+ */
+export interface HistoryEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  origin_server_ts?: number;
+  content: MatrixMessageContent;
+}
+
+/** Events requested per /messages call */
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Event types worth importing into memory */
+const HISTORY_EVENT_TYPES: string[] = [
+  MATRIX_EVENT_TYPES.MESSAGE,
+  MATRIX_EVENT_TYPES.ENCRYPTED,
+];
+
+/**
+ * Page backwards through a room's timeline with /messages and collect
+ * message events, oldest first. Stops at the limit, at the first event
+ * older than `since`, or at the start of the room. Without either, the
+ * whole room is fetched.
+ */
+export async function fetchRoomHistory(
+  client: MatrixClient,
+  roomId: string,
+  options: RoomHistoryOptions,
+): Promise<HistoryEvent[]> {
+  const path = `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/messages`;
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE);
+  const limit = options.limit ?? Infinity;
+  const events: HistoryEvent[] = [];
+  let from: string | undefined;
+
+  while (events.length < limit) {
+    const page = await client.doRequest("GET", path, {
+      dir: "b",
+      limit: Math.min(pageSize, limit - events.length),
+      ...(from ? { from } : {}),
+    });
+    const chunk: HistoryEvent[] = page?.chunk || [];
+
+    for (const event of chunk) {
+      if (options.since && (event.origin_server_ts || 0) < options.since) {
+        return events.reverse();
+      }
+      if (options.until && (event.origin_server_ts || 0) >= options.until) {
+        continue;
+      }
+      if (HISTORY_EVENT_TYPES.includes(event.type)) {
+        events.push(event);
+        if (events.length >= limit) {
+          break;
+        }
+      }
+    }
+
+    // No end token, or an empty page, means the start of the room
+    if (!page?.end || chunk.length === 0 || page.end === from) {
+      break;
+    }
+    from = page.end;
+  }
+
+  return events.reverse();
+}
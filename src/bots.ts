@@ -0,0 +1,101 @@
+import { MATRIX_MESSAGE_TYPES } from "./constants";
+
+/**
+ * User IDs whose localpart contains "bot" as a separate word, such as
+ * @bot:, @github-bot: or @bot_helper:, but not @abbot: or @robot:
+ */
+export const DEFAULT_BOT_USER_ID_PATTERNS = [
+  "^@(?:[^:]*[._=/-])?bot(?:[._=/-][^:]*)?:",
+];
+
+/**
+ * Options for classifying senders as bots
+ */
+export interface BotClassifierOptions {
+  /** Regexes matched against full user IDs */
+  userIdPatterns?: string[];
+  /** Appservice user namespaces (regexes, as in a registration file) */
+  appserviceNamespaces?: string[];
+  /** Users that are always bots */
+  botUserIds?: string[];
+  /** Users that are never bots, whatever the other rules say */
+  humanUserIds?: string[];
+  /** Treat senders of m.notice messages as bots (default: true) */
+  detectNotices?: boolean;
+  /** Called for patterns that are not valid regexes */
+  onInvalidPattern?: (pattern: string, error: unknown) => void;
+}
+
+/** Number of notice senders remembered */
+const MAX_NOTICE_SENDERS = 1000;
+
+/**
+ * Tells bots apart from humans by user ID patterns, appservice namespaces,
+ * explicit lists and the senders of m.notice messages
+ */
+export class BotClassifier {
+  private patterns: RegExp[];
+  private botUserIds: Set<string>;
+  private humanUserIds: Set<string>;
+  private noticeSenders: Set<string> = new Set();
+
+  constructor(private readonly options: BotClassifierOptions = {}) {
+    this.patterns = [
+      ...(options.userIdPatterns ?? DEFAULT_BOT_USER_ID_PATTERNS),
+      ...(options.appserviceNamespaces ?? []),
+    ]
+      .map((pattern) => this.compile(pattern))
+      .filter((pattern): pattern is RegExp => pattern !== null);
+    this.botUserIds = new Set(options.botUserIds ?? []);
+    this.humanUserIds = new Set(options.humanUserIds ?? []);
+  }
+
+  /**
+   * Whether a user is a bot
+   */
+  isBot(userId: string): boolean {
+    if (this.humanUserIds.has(userId)) {
+      return false;
+    }
+    return (
+      this.botUserIds.has(userId) ||
+      this.noticeSenders.has(userId) ||
+      this.patterns.some((pattern) => pattern.test(userId))
+    );
+  }
+
+  /**
+   * Classify the sender of a message, learning from the message type: bots
+   * are expected to send m.notice
+   */
+  classifyMessage(userId: string, msgtype?: string): boolean {
+    if (
+      msgtype === MATRIX_MESSAGE_TYPES.NOTICE &&
+      this.options.detectNotices !== false &&
+      !this.humanUserIds.has(userId)
+    ) {
+      this.rememberNoticeSender(userId);
+    }
+    return this.isBot(userId);
+  }
+
+  private rememberNoticeSender(userId: string): void {
+    this.noticeSenders.delete(userId);
+    this.noticeSenders.add(userId);
+    if (this.noticeSenders.size > MAX_NOTICE_SENDERS) {
+      const oldest = this.noticeSenders.values().next().value;
+      if (oldest !== undefined) {
+        this.noticeSenders.delete(oldest);
+      }
+    }
+  }
+
+  private compile(pattern: string): RegExp | null {
+    try {
+      return new RegExp(pattern, "i");
+    } catch (error) {
+      this.options.onInvalidPattern?.(pattern, error);
+      return null;
+    }
+  }
+}
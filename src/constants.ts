@@ -18,9 +18,21 @@ export const MATRIX_EVENT_TYPES = {
   REDACTION: "m.room.redaction",
 } as const;
 
+/** Room state events that are reported as STATE_CHANGED */
+export const MATRIX_STATE_EVENT_TYPES = {
+  NAME: "m.room.name",
+  TOPIC: "m.room.topic",
+  AVATAR: "m.room.avatar",
+  POWER_LEVELS: "m.room.power_levels",
+  ENCRYPTION: "m.room.encryption",
+  JOIN_RULES: "m.room.join_rules",
+  CANONICAL_ALIAS: "m.room.canonical_alias",
+} as const;
+
 export const MATRIX_MEMBERSHIP = {
   INVITE: "invite",
   JOIN: "join",
   LEAVE: "leave",
   BAN: "ban",
+  KNOCK: "knock",
 } as const;
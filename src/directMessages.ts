@@ -0,0 +1,113 @@
+/**
+ * Get the homeserver part of a Matrix user ID (@alice:matrix.org -> matrix.org)
+ */
+export function getServerName(userId: string): string {
+  const separator = userId.indexOf(":");
+  return separator === -1 ? "" : userId.slice(separator + 1).toLowerCase();
+}
+
+/**
+ * Whether a user matches a DM allowlist. Entries are either full user IDs
+ * (@alice:matrix.org) or homeservers (matrix.org, or :matrix.org), which
+ * allow every user on that server.
+ */
+export function isAllowlisted(userId: string, allowlist: string[]): boolean {
+  const server = getServerName(userId);
+  return allowlist.some((entry) => {
+    const value = entry.trim();
+    if (value.startsWith("@")) {
+      return value === userId;
+    }
+    return value.replace(/^:/, "").toLowerCase() === server;
+  });
+}
+
+/**
+ * Whether a homeserver error says the requested data does not exist.
+ * matrix-bot-sdk throws MatrixError with an errcode for JSON errors, and the
+ * raw response, with the JSON body, otherwise.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { errcode, body } = error as { errcode?: unknown; body?: unknown };
+  return (
+    errcode === "M_NOT_FOUND" ||
+    (typeof body === "object" &&
+      body !== null &&
+      (body as { errcode?: unknown }).errcode === "M_NOT_FOUND")
+  );
+}
+
+/**
+ * Index over the m.direct account data, which maps each user to the DM
+ * rooms the bot shares with them
+ */
+export class DirectRoomIndex {
+  private roomsByUser: Map<string, string[]> = new Map();
+  private userByRoom: Map<string, string> = new Map();
+  private loaded = false;
+
+  /**
+   * Whether m.direct has been read. Until then, DMs can only be recognised
+   * by their membership.
+   */
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Replace the index with m.direct content
+   */
+  load(content: Record<string, unknown> | null | undefined): void {
+    this.roomsByUser.clear();
+    this.userByRoom.clear();
+    for (const [userId, roomIds] of Object.entries(content || {})) {
+      if (!Array.isArray(roomIds)) {
+        continue;
+      }
+      for (const roomId of roomIds) {
+        if (typeof roomId === "string") {
+          this.add(userId, roomId);
+        }
+      }
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * DM rooms with a user, oldest first
+   */
+  getRooms(userId: string): string[] {
+    return this.roomsByUser.get(userId) || [];
+  }
+
+  /**
+   * Whether m.direct lists a room, for any user
+   */
+  has(roomId: string): boolean {
+    return this.userByRoom.has(roomId);
+  }
+
+  /**
+   * Record a DM room with a user
+   * @returns False when the room was already recorded for that user
+   */
+  add(userId: string, roomId: string): boolean {
+    const rooms = this.getRooms(userId);
+    if (rooms.includes(roomId)) {
+      return false;
+    }
+    this.roomsByUser.set(userId, [...rooms, roomId]);
+    this.userByRoom.set(roomId, userId);
+    return true;
+  }
+
+  /**
+   * The index as m.direct content
+   */
+  toContent(): Record<string, string[]> {
+    return Object.fromEntries(this.roomsByUser);
+  }
+}
@@ -28,3 +28,58 @@ export function validateMatrixConfig(
     throw error;
   }
 }
+
+const tokenBucketBudgetSchema = z
+  .object({
+    burst: z.number().int().positive(),
+    perMinute: z.number().positive(),
+  })
+  .strict();
+
+export const matrixRoomProfileSchema = z
+  .object({
+    responseMode: z.enum(["always", "mentions", "observe"]).optional(),
+    botMessages: z.enum(["ignore", "observe", "respond"]).optional(),
+    replyStyle: z.enum(["thread", "reply", "plain"]).optional(),
+    messageType: z.enum(["m.text", "m.notice"]).optional(),
+    rateLimit: z
+      .object({
+        maxResponses: z.number().int().positive(),
+        windowMs: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    mediaDownloads: z.boolean().optional(),
+    maxMediaBytes: z.number().int().positive().optional(),
+    inboundLimits: z
+      .object({
+        sender: tokenBucketBudgetSchema.optional(),
+        room: tokenBucketBudgetSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    floodAction: z.enum(["drop", "queue", "notify"]).optional(),
+  })
+  .strict();
+
+/** Profiles are keyed by room ID (!room:server) or alias (#alias:server) */
+export const matrixRoomProfilesSchema = z.record(
+  z.string().regex(/^[!#].+:.+$/, "Expected a room ID or alias"),
+  matrixRoomProfileSchema,
+);
+
+export type MatrixRoomProfiles = z.infer<typeof matrixRoomProfilesSchema>;
+
+export function validateRoomProfiles(rooms: unknown): MatrixRoomProfiles {
+  try {
+    return matrixRoomProfilesSchema.parse(rooms ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.issues
+        .map((issue) => `rooms.${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      throw new Error(`Matrix room profile validation failed: ${issues}`);
+    }
+    throw error;
+  }
+}
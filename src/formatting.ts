@@ -0,0 +1,374 @@
+import {
+  Marked,
+  type RendererThis,
+  type Token,
+  type Tokens,
+  type TokenizerAndRendererExtension,
+  type TokenizerThis,
+} from "marked";
+import TurndownService from "turndown";
+import type { MatrixMessageContent } from "./types";
+
+/**
+ * Format identifier for HTML bodies, as defined by the Matrix spec
+ */
+export const MATRIX_HTML_FORMAT = "org.matrix.custom.html";
+
+/**
+ * Text content of an outbound Matrix message
+ */
+export interface FormattedMessage {
+  /** Plaintext body, always present */
+  body: string;
+  /** HTML format identifier, present when formatted_body is set */
+  format?: typeof MATRIX_HTML_FORMAT;
+  /** Sanitized HTML body */
+  formatted_body?: string;
+}
+
+/**
+ * URL schemes Matrix clients accept in links
+ */
+const ALLOWED_LINK_SCHEMES = [
+  "http:",
+  "https:",
+  "ftp:",
+  "mailto:",
+  "magnet:",
+  "matrix:",
+];
+
+const SPOILER_PATTERN = /^\|\|([^|\n]+?)\|\|/;
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function isAllowedHref(href: string): boolean {
+  try {
+    return ALLOWED_LINK_SCHEMES.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `||text||` spoilers, rendered as `<span data-mx-spoiler>`
+ */
+const spoilerExtension: TokenizerAndRendererExtension = {
+  name: "spoiler",
+  level: "inline",
+  start(src: string) {
+    return src.indexOf("||");
+  },
+  tokenizer(this: TokenizerThis, src: string) {
+    const match = SPOILER_PATTERN.exec(src);
+    if (!match) {
+      return undefined;
+    }
+    return {
+      type: "spoiler",
+      raw: match[0],
+      tokens: this.lexer.inlineTokens(match[1]),
+    };
+  },
+  renderer(this: RendererThis, token: Tokens.Generic) {
+    return `<span data-mx-spoiler>${this.parser.parseInline(token.tokens || [])}</span>`;
+  },
+};
+
+/**
+ * Markdown renderer producing the HTML subset Matrix clients display.
+ * Raw HTML in the source is escaped rather than passed through, so the
+ * only markup in the output is what the renderer itself generates.
+ */
+const markdown = new Marked({ gfm: true, breaks: true, async: false }).use({
+  extensions: [spoilerExtension],
+  renderer: {
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }: Tokens.Link) {
+      const text = this.parser.parseInline(tokens);
+      if (!isAllowedHref(href)) {
+        return text;
+      }
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(href)}"${titleAttr}>${text}</a>`;
+    },
+    image({ href, text }: Tokens.Image) {
+      // Matrix only renders mxc:// images inline; show anything else as a link
+      if (href.startsWith("mxc://")) {
+        return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}">`;
+      }
+      return isAllowedHref(href)
+        ? `<a href="${escapeHtml(href)}">${escapeHtml(text || href)}</a>`
+        : escapeHtml(text);
+    },
+  },
+});
+
+/**
+ * Build the plaintext body for a Markdown message. Markdown reads fine as
+ * plain text, so the source is kept apart from spoilers, which are hidden.
+ */
+function toPlainBody(text: string): string {
+  return text.replace(/\|\|([^|\n]+?)\|\|/g, "[Spoiler]");
+}
+
+/**
+ * Render agent Markdown into Matrix message content.
+ * formatted_body is only included when the Markdown produces markup beyond
+ * a plain paragraph, so simple replies stay plain text.
+ */
+export function renderMarkdown(text: string): FormattedMessage {
+  const body = toPlainBody(text);
+  const html = (markdown.parse(text) as string).trim();
+
+  const plainParagraph = `<p>${escapeHtml(text.trim()).replace(/\n/g, "<br>")}</p>`;
+  if (!html || html === plainParagraph) {
+    return { body };
+  }
+
+  return {
+    body,
+    format: MATRIX_HTML_FORMAT,
+    formatted_body: html,
+  };
+}
+
+/**
+ * Split text into pieces of at most maxLength characters between lines,
+ * cutting lines that are longer than that. Each piece ends with a newline.
+ */
+function splitLines(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    if (current.length + line.length + 1 <= maxLength) {
+      current += `${line}\n`;
+      continue;
+    }
+    if (current) {
+      pieces.push(current);
+      current = "";
+    }
+    if (line.length + 1 <= maxLength) {
+      current = `${line}\n`;
+      continue;
+    }
+    const width = Math.max(maxLength - 1, 1);
+    for (let i = 0; i < line.length; i += width) {
+      pieces.push(`${line.substring(i, i + width)}\n`);
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Split a Markdown block that does not fit in one message into pieces
+ * that each render on their own: code blocks are closed and reopened
+ * around every piece, tables repeat their header, and lists are split
+ * between items.
+ */
+function splitBlock(token: Token, maxLength: number): string[] {
+  const raw = token.raw.replace(/\n+$/, "");
+
+  if (token.type === "code" && token.codeBlockStyle !== "indented") {
+    const lines = raw.split("\n");
+    const open = lines[0];
+    const fence = /^\s*(`{3,}|~{3,})/.exec(open)?.[1];
+    if (fence) {
+      const close = fence;
+      const budget = maxLength - open.length - close.length - 2;
+      if (budget > 0) {
+        return splitLines((token as Tokens.Code).text, budget).map(
+          (piece) => `${open}\n${piece}${close}\n`,
+        );
+      }
+    }
+  }
+
+  if (token.type === "table") {
+    const lines = raw.split("\n");
+    const header = `${lines.slice(0, 2).join("\n")}\n`;
+    const budget = maxLength - header.length;
+    if (budget > 0) {
+      return splitLines(lines.slice(2).join("\n"), budget).map(
+        (piece) => `${header}${piece}`,
+      );
+    }
+  }
+
+  if (token.type === "list") {
+    return (token as Tokens.List).items.flatMap((item) => {
+      const itemRaw = item.raw.replace(/\n+$/, "\n");
+      const piece = itemRaw.endsWith("\n") ? itemRaw : `${itemRaw}\n`;
+      return piece.length <= maxLength ? [piece] : splitLines(piece, maxLength);
+    });
+  }
+
+  return splitLines(raw, maxLength);
+}
+
+/**
+ * Split agent Markdown into messages of at most maxLength characters.
+ * Splits fall between blocks where possible, so that each message renders
+ * on its own: a code block, table or list that does not fit in one message
+ * is split into several that each stay well-formed.
+ */
+export function splitMarkdown(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    const chunk = current.replace(/^\n+/, "").trimEnd();
+    if (chunk) {
+      chunks.push(chunk);
+    }
+    current = "";
+  };
+  const append = (piece: string) => {
+    if (current && current.length + piece.trimEnd().length > maxLength) {
+      flush();
+    }
+    current += piece;
+  };
+
+  for (const token of markdown.lexer(text)) {
+    if (token.raw.trimEnd().length <= maxLength) {
+      append(token.raw);
+      continue;
+    }
+    splitBlock(token, maxLength).forEach(append);
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Text extracted from an inbound Matrix message
+ */
+export interface InboundText {
+  /** Markdown text for the Memory */
+  text: string;
+  /** Original HTML body, with any reply fallback removed */
+  html?: string;
+}
+
+/**
+ * HTML to Markdown converter for the HTML subset Matrix allows in
+ * formatted_body
+ */
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+  emDelimiter: "*",
+});
+
+// Memory text is read by the model, not re-rendered, so keep it unescaped
+turndown.escape = (text: string) => text;
+
+turndown.remove("mx-reply" as keyof HTMLElementTagNameMap);
+
+turndown.addRule("strikethrough", {
+  filter: ["del", "s", "strike" as keyof HTMLElementTagNameMap],
+  replacement: (content) => `~~${content}~~`,
+});
+
+turndown.addRule("spoiler", {
+  filter: (node) =>
+    node.nodeName === "SPAN" && node.hasAttribute("data-mx-spoiler"),
+  replacement: (content) => `||${content}||`,
+});
+
+turndown.addRule("table", {
+  filter: "table",
+  replacement: (_content, node) => {
+    const rows = Array.from((node as HTMLElement).querySelectorAll("tr")).map(
+      (row) =>
+        Array.from(row.querySelectorAll("th, td")).map((cell) =>
+          (cell.textContent || "").trim().replace(/\|/g, "\\|"),
+        ),
+    );
+    if (rows.length === 0) {
+      return "";
+    }
+
+    const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+    lines.splice(1, 0, `| ${rows[0].map(() => "---").join(" | ")} |`);
+    return `\n\n${lines.join("\n")}\n\n`;
+  },
+});
+
+/**
+ * Convert Matrix HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html).trim();
+}
+
+/**
+ * Remove the `> <@user> quoted text` fallback from a reply's plain body
+ */
+export function stripReplyFallback(body: string): string {
+  const lines = body.split("\n");
+  let index = 0;
+  while (index < lines.length && lines[index].startsWith(">")) {
+    index++;
+  }
+  if (index === 0) {
+    return body;
+  }
+  if (index < lines.length && lines[index].trim() === "") {
+    index++;
+  }
+  return lines.slice(index).join("\n");
+}
+
+/**
+ * Remove the `<mx-reply>` fallback from a reply's HTML body
+ */
+export function stripHtmlReplyFallback(html: string): string {
+  return html.replace(/<mx-reply>[\s\S]*?<\/mx-reply>/gi, "");
+}
+
+/**
+ * Extract Memory text from inbound message content. Prefers formatted_body,
+ * converted to Markdown, and strips reply fallbacks from replies.
+ */
+export function normalizeInboundText(
+  content: MatrixMessageContent,
+): InboundText {
+  const relatesTo = content["m.relates_to"];
+  const hasReplyFallback =
+    !!relatesTo?.["m.in_reply_to"] && relatesTo.is_falling_back !== true;
+  const body = content.body || "";
+
+  if (content.format === MATRIX_HTML_FORMAT && content.formatted_body) {
+    const html = hasReplyFallback
+      ? stripHtmlReplyFallback(content.formatted_body)
+      : content.formatted_body;
+    const text = htmlToMarkdown(html);
+    if (text) {
+      return { text, html };
+    }
+  }
+
+  return { text: hasReplyFallback ? stripReplyFallback(body) : body };
+}
@@ -0,0 +1,266 @@
+/**
+ * A token bucket budget: up to `burst` messages at once, refilled by
+ * `perMinute` messages every minute
+ */
+export interface TokenBucketBudget {
+  burst: number;
+  perMinute: number;
+}
+
+/**
+ * Budgets that apply to one inbound message
+ */
+export interface InboundBudgets {
+  /** Messages from one sender in one room */
+  sender?: TokenBucketBudget;
+  /** Messages in one room, from anyone */
+  room?: TokenBucketBudget;
+  /** Messages across all rooms */
+  global?: TokenBucketBudget;
+}
+
+/** Which budget a message exceeded */
+export type FloodScope = "sender" | "room" | "global";
+
+/**
+ * A sender exceeding a budget. Repeated excess messages extend the same
+ * violation until the sender gets through again.
+ */
+export interface FloodViolation {
+  roomId: string;
+  userId: string;
+  scope: FloodScope;
+  /** Messages over the budget */
+  count: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+/**
+ * Options for the inbound limiter
+ */
+export interface InboundLimiterOptions {
+  /** Messages waiting per room before further ones are dropped */
+  maxQueuedPerRoom: number;
+  /** Violations kept for inspection */
+  maxViolations: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketState {
+  scope: FloodScope;
+  bucket: Bucket;
+  budget: TokenBucketBudget;
+}
+
+/**
+ * Token buckets for inbound messages, per sender, per room and across all
+ * rooms. A message gets through when every bucket that applies has a token
+ * left, and then takes one from each.
+ */
+export class InboundLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  /** Ongoing violations, keyed by room and sender */
+  private active: Map<string, FloodViolation> = new Map();
+  private violations: FloodViolation[] = [];
+  /** Messages waiting for tokens, per room */
+  private queued: Map<string, number> = new Map();
+  /** Tail of each room's waiting line, so queued messages keep their order */
+  private tails: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private readonly options: InboundLimiterOptions) {}
+
+  /**
+   * Let a message through if the budgets allow it
+   * @returns The exhausted budget, or null when the message got through
+   */
+  take(
+    roomId: string,
+    userId: string,
+    budgets: InboundBudgets,
+  ): FloodScope | null {
+    // Messages waiting in the room's line go first
+    if (this.queued.has(roomId)) {
+      return "room";
+    }
+    const scope = this.consume(roomId, userId, budgets);
+    if (!scope) {
+      this.active.delete(violationKey(roomId, userId));
+    }
+    return scope;
+  }
+
+  /**
+   * Wait in the room's line until the budgets let the message through
+   * @returns False when the line is full and the message should be dropped
+   */
+  async wait(
+    roomId: string,
+    userId: string,
+    budgets: InboundBudgets,
+  ): Promise<boolean> {
+    const queued = this.queued.get(roomId) || 0;
+    if (queued >= this.options.maxQueuedPerRoom) {
+      return false;
+    }
+    this.queued.set(roomId, queued + 1);
+
+    const previous = this.tails.get(roomId) || Promise.resolve();
+    const turn = previous.then(async () => {
+      while (this.consume(roomId, userId, budgets)) {
+        await sleep(this.getWaitMs(roomId, userId, budgets));
+      }
+    });
+    this.tails.set(roomId, turn);
+
+    try {
+      await turn;
+      return true;
+    } finally {
+      const remaining = (this.queued.get(roomId) || 1) - 1;
+      if (remaining === 0) {
+        this.queued.delete(roomId);
+        this.tails.delete(roomId);
+      } else {
+        this.queued.set(roomId, remaining);
+      }
+    }
+  }
+
+  /**
+   * Record a message that exceeded a budget
+   * @returns The violation, and whether it is a new one
+   */
+  recordViolation(
+    roomId: string,
+    userId: string,
+    scope: FloodScope,
+  ): { violation: FloodViolation; isNew: boolean } {
+    const key = violationKey(roomId, userId);
+    const now = this.now();
+    const ongoing = this.active.get(key);
+    if (ongoing) {
+      ongoing.count += 1;
+      ongoing.lastAt = now;
+      return { violation: ongoing, isNew: false };
+    }
+
+    const violation: FloodViolation = {
+      roomId,
+      userId,
+      scope,
+      count: 1,
+      firstAt: now,
+      lastAt: now,
+    };
+    this.active.set(key, violation);
+    this.violations.push(violation);
+    if (this.violations.length > this.options.maxViolations) {
+      this.violations.shift();
+    }
+    return { violation, isNew: true };
+  }
+
+  /**
+   * Recorded violations, oldest first
+   */
+  getViolations(): FloodViolation[] {
+    return this.violations.map((violation) => ({ ...violation }));
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.active.clear();
+  }
+
+  /**
+   * Take a token from every bucket that applies, if they all have one
+   */
+  private consume(
+    roomId: string,
+    userId: string,
+    budgets: InboundBudgets,
+  ): FloodScope | null {
+    const buckets = this.getBuckets(roomId, userId, budgets);
+    const exhausted = buckets.find(({ bucket }) => bucket.tokens < 1);
+    if (exhausted) {
+      return exhausted.scope;
+    }
+
+    for (const { bucket } of buckets) {
+      bucket.tokens -= 1;
+    }
+    return null;
+  }
+
+  /**
+   * Time until every bucket that applies has a token again
+   */
+  private getWaitMs(
+    roomId: string,
+    userId: string,
+    budgets: InboundBudgets,
+  ): number {
+    let waitMs = 0;
+    for (const { bucket, budget } of this.getBuckets(roomId, userId, budgets)) {
+      if (bucket.tokens < 1) {
+        const missing = 1 - bucket.tokens;
+        waitMs = Math.max(waitMs, (missing / budget.perMinute) * 60000);
+      }
+    }
+    return Math.ceil(waitMs);
+  }
+
+  /**
+   * The buckets that apply to a message, refilled up to now
+   */
+  private getBuckets(
+    roomId: string,
+    userId: string,
+    budgets: InboundBudgets,
+  ): BucketState[] {
+    const keys: [FloodScope, string][] = [
+      ["sender", `sender:${roomId}:${userId}`],
+      ["room", `room:${roomId}`],
+      ["global", "global"],
+    ];
+
+    const now = this.now();
+    const result: BucketState[] = [];
+    for (const [scope, key] of keys) {
+      const budget = budgets[scope];
+      if (!budget) {
+        continue;
+      }
+
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: budget.burst, updatedAt: now };
+        this.buckets.set(key, bucket);
+      }
+      const refill = ((now - bucket.updatedAt) / 60000) * budget.perMinute;
+      bucket.tokens = Math.min(budget.burst, bucket.tokens + refill);
+      bucket.updatedAt = now;
+      result.push({ scope, bucket, budget });
+    }
+    return result;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
+
+function violationKey(roomId: string, userId: string): string {
+  return `${roomId}\n${userId}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
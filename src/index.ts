@@ -2,6 +2,8 @@ import { type IAgentRuntime, type Plugin, logger } from "@elizaos/core";
 
 // Import actions
 import sendMessage from "./actions/sendMessage";
+import editMessage from "./actions/editMessage";
+import redactMessage from "./actions/redactMessage";
 import sendImageMessage from "./actions/sendImageMessage";
 import reactToMessage from "./actions/reactToMessage";
 import joinRoom from "./actions/joinRoom";
@@ -10,6 +12,9 @@ import uploadMedia from "./actions/uploadMedia";
 import downloadMedia from "./actions/downloadMedia";
 import enableEncryption from "./actions/enableEncryption";
 import listRooms from "./actions/listRooms";
+import backfillRoom from "./actions/backfillRoom";
+import allowRoom from "./actions/allowRoom";
+import disallowRoom from "./actions/disallowRoom";
 
 // Import providers
 import roomStateProvider from "./providers/roomState";
@@ -28,6 +33,8 @@ const matrixPlugin: Plugin = {
   services: [MatrixService],
   actions: [
     sendMessage,
+    editMessage,
+    redactMessage,
     sendImageMessage,
     reactToMessage,
     joinRoom,
@@ -36,6 +43,9 @@ const matrixPlugin: Plugin = {
     downloadMedia,
     enableEncryption,
     listRooms,
+    backfillRoom,
+    allowRoom,
+    disallowRoom,
   ],
   providers: [roomStateProvider, userInfoProvider],
   // tests: [new MatrixTestSuite()],
@@ -0,0 +1,109 @@
+import { isAllowlisted } from "./directMessages";
+import type { InviteRule } from "./types";
+
+/**
+ * An invite to a room
+ */
+export interface RoomInvite {
+  roomId: string;
+  /** The user who sent the invite */
+  inviter: string;
+  /** The invite is for a direct message */
+  isDirect: boolean;
+}
+
+/**
+ * Options for deciding on invites
+ */
+export interface InvitePolicyOptions {
+  /** Rules that accept an invite; any one of them is enough */
+  rules: InviteRule[];
+  /** User IDs or homeservers accepted by the "allowlist" rule */
+  allowlist: string[];
+  /** Most rooms the bot stays joined to */
+  maxJoinedRooms?: number;
+  /** Invites no rule accepts go to an operator instead of being rejected */
+  askOperator: boolean;
+}
+
+/**
+ * What the bot knows about its rooms when an invite arrives
+ */
+export interface InviteContext {
+  /** The room is in the room allowlist */
+  isRoomAllowed: boolean;
+  joinedRoomCount: number;
+}
+
+export type InviteDecision =
+  | { action: "accept"; rule: InviteRule }
+  | { action: "ask" }
+  | { action: "reject"; reason: string };
+
+/**
+ * An invite the bot turned down
+ */
+export interface RejectedInvite extends RoomInvite {
+  reason: string;
+  rejectedAt: number;
+}
+
+/**
+ * An invite waiting for an operator's answer
+ */
+export interface PendingInvite extends RoomInvite {
+  operator: string;
+  /** When the invite is rejected if the operator has not answered */
+  expiresAt: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pending invites as kept in the runtime cache, keyed by the event that
+ * asked the operator
+ */
+export type StoredPendingInvites = Record<string, Omit<PendingInvite, "timer">>;
+
+/**
+ * Decide what happens to an invite. The room cap is checked first; then the
+ * invite is accepted by the first rule that matches, forwarded to an
+ * operator, or rejected.
+ */
+export function evaluateInvite(
+  invite: RoomInvite,
+  options: InvitePolicyOptions,
+  context: InviteContext,
+): InviteDecision {
+  if (
+    options.maxJoinedRooms !== undefined &&
+    context.joinedRoomCount >= options.maxJoinedRooms
+  ) {
+    return {
+      action: "reject",
+      reason: `already in ${context.joinedRoomCount} rooms (limit ${options.maxJoinedRooms})`,
+    };
+  }
+
+  const rule = options.rules.find((candidate) => {
+    switch (candidate) {
+      case "any":
+        return true;
+      case "allowlist":
+        return isAllowlisted(invite.inviter, options.allowlist);
+      case "direct":
+        return invite.isDirect;
+      case "allowed-rooms":
+        return context.isRoomAllowed;
+      default:
+        return false;
+    }
+  });
+  if (rule) {
+    return { action: "accept", rule };
+  }
+
+  if (options.askOperator) {
+    return { action: "ask" };
+  }
+  return { action: "reject", reason: "no invite rule matched" };
+}
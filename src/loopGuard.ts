@@ -0,0 +1,198 @@
+/**
+ * Options for the loop guard
+ */
+export interface LoopGuardOptions {
+  /** Exchanges with one partner that trip the guard */
+  maxExchanges: number;
+  /** Window the exchanges are counted in, in milliseconds */
+  windowMs: number;
+  /** Depth of a reply chain through the bot's responses that trips the guard */
+  maxReplyDepth: number;
+  /** How long the guard stays tripped, in milliseconds */
+  cooldownMs: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+/**
+ * An inbound message, as the loop guard sees it
+ */
+export interface LoopGuardMessage {
+  senderId: string;
+  /** Whether the bot classifier flags the sender; only those can trip the guard */
+  senderIsBot: boolean;
+  /** The event the message continues: its reply target, or the thread fallback */
+  parentEventId?: string;
+}
+
+/**
+ * Why the loop guard tripped
+ */
+export interface LoopTrip {
+  /** The sender the bot was ping-ponging with */
+  userId: string;
+  reason: "exchanges" | "reply-depth";
+}
+
+/** Partner key shared by every sender the bot classifier flags */
+const BOT_PARTNER = "bots";
+
+/** Number of response event IDs whose reply depth is remembered */
+const MAX_TRACKED_DEPTHS = 1000;
+
+interface RoomExchanges {
+  /** Who the bot is exchanging messages with */
+  partner: string | null;
+  /** When the bot answered the partner, oldest first */
+  exchanges: number[];
+  /** The last inbound message from a bot, until the bot answers it */
+  awaiting: { partner: string; userId: string; depth: number } | null;
+  /** Partners the guard is tripped for, until the given time */
+  trippedUntil: Map<string, number>;
+}
+
+/**
+ * Detects the bot ping-ponging with other automated senders, the ones the
+ * bot classifier flags. Two signals count:
+ * - exchanges: the bot answering bots back and forth, with no one else
+ *   speaking in between, too often within the window. All flagged senders
+ *   count as one partner.
+ * - reply depth: a chain of replies (or thread messages) between bots and
+ *   the bot's own responses growing too deep, however slowly it grows.
+ * Once tripped, the bot stops answering bots in the room until the cooldown
+ * passes. People are never throttled: their messages only break the chain.
+ */
+export class LoopGuard {
+  private rooms: Map<string, RoomExchanges> = new Map();
+  /** Reply chain depth of the bot's responses, by event ID */
+  private depths: Map<string, number> = new Map();
+
+  constructor(private readonly options: LoopGuardOptions) {}
+
+  /**
+   * Record an inbound message
+   * @returns Whether the bot may answer it
+   */
+  recordInbound(roomId: string, message: LoopGuardMessage): boolean {
+    const room = this.getRoom(roomId);
+    const partner = message.senderIsBot ? BOT_PARTNER : message.senderId;
+    if (room.partner !== partner) {
+      // Someone else speaking breaks the chain
+      room.partner = partner;
+      room.exchanges = [];
+    }
+    if (!message.senderIsBot) {
+      // Nothing to count until a bot speaks again
+      room.awaiting = null;
+      return true;
+    }
+
+    const parentDepth = message.parentEventId
+      ? this.depths.get(message.parentEventId) || 0
+      : 0;
+    const depth = parentDepth + 1;
+    room.awaiting = { partner, userId: message.senderId, depth };
+
+    return (
+      depth < this.options.maxReplyDepth && !this.isTripped(roomId, partner)
+    );
+  }
+
+  /**
+   * Record the reply the bot sent to the last inbound message
+   * @returns Why the guard tripped, when this reply tripped it
+   */
+  recordResponse(roomId: string, eventIds: string[]): LoopTrip | null {
+    const room = this.getRoom(roomId);
+    const awaiting = room.awaiting;
+    if (!awaiting) {
+      return null;
+    }
+    room.awaiting = null;
+
+    const depth = awaiting.depth + 1;
+    for (const eventId of eventIds) {
+      this.rememberDepth(eventId, depth);
+    }
+
+    const now = this.now();
+    room.exchanges = room.exchanges.filter(
+      (time) => now - time < this.options.windowMs,
+    );
+    room.exchanges.push(now);
+
+    let reason: LoopTrip["reason"] | null = null;
+    if (room.exchanges.length >= this.options.maxExchanges) {
+      reason = "exchanges";
+    } else if (depth >= this.options.maxReplyDepth) {
+      reason = "reply-depth";
+    }
+    if (!reason) {
+      return null;
+    }
+
+    room.exchanges = [];
+    room.trippedUntil.set(awaiting.partner, now + this.options.cooldownMs);
+    return { userId: awaiting.userId, reason };
+  }
+
+  /**
+   * Whether the guard is tripped in a room, for one partner or any
+   */
+  isTripped(roomId: string, partner?: string): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return false;
+    }
+    const now = this.now();
+    if (partner !== undefined) {
+      return (room.trippedUntil.get(partner) || 0) > now;
+    }
+    return [...room.trippedUntil.values()].some((until) => until > now);
+  }
+
+  /**
+   * Number of exchanges counted in a room's current window
+   */
+  getExchangeCount(roomId: string): number {
+    const now = this.now();
+    return (this.rooms.get(roomId)?.exchanges || []).filter(
+      (time) => now - time < this.options.windowMs,
+    ).length;
+  }
+
+  /**
+   * Forget a room's exchanges and untrip its guard
+   */
+  reset(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  private rememberDepth(eventId: string, depth: number): void {
+    this.depths.set(eventId, depth);
+    if (this.depths.size > MAX_TRACKED_DEPTHS) {
+      const oldest = this.depths.keys().next().value;
+      if (oldest !== undefined) {
+        this.depths.delete(oldest);
+      }
+    }
+  }
+
+  private getRoom(roomId: string): RoomExchanges {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        partner: null,
+        exchanges: [],
+        awaiting: null,
+        trippedUntil: new Map(),
+      };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
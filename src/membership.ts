@@ -0,0 +1,94 @@
+import { MATRIX_MEMBERSHIP } from "./constants";
+import type {
+  MatrixMemberContent,
+  MatrixRoomEvent,
+  MembershipTransition,
+} from "./types";
+
+/**
+ * A change to a user's membership of a room
+ */
+export interface MembershipChange {
+  transition: MembershipTransition;
+  /** The user whose membership changed */
+  userId: string;
+  /** The user who made the change; differs from userId for kicks, bans and invites */
+  sender: string;
+  reason?: string;
+  displayName?: string;
+  avatarUrl?: string;
+  /** Profile before a profile change */
+  previousDisplayName?: string;
+  previousAvatarUrl?: string;
+}
+
+/**
+ * Classify an m.room.member event by comparing it with the membership it
+ * replaces, from the prev_content the homeserver sends along with it
+ * @returns Null when nothing worth reporting changed, such as a repeated
+ * membership, an unban, or a withdrawn invite
+ */
+export function classifyMembership(
+  event: MatrixRoomEvent,
+): MembershipChange | null {
+  const userId = event?.state_key;
+  if (typeof userId !== "string" || !userId) {
+    return null;
+  }
+
+  const content = (event.content || {}) as Partial<MatrixMemberContent>;
+  const previous = (event.unsigned?.prev_content ||
+    {}) as Partial<MatrixMemberContent>;
+  const membership = content.membership;
+  const previousMembership = previous.membership || MATRIX_MEMBERSHIP.LEAVE;
+  const sender = event.sender || userId;
+
+  const change = (transition: MembershipTransition): MembershipChange => ({
+    transition,
+    userId,
+    sender,
+    reason: content.reason || undefined,
+    displayName: content.displayname || undefined,
+    avatarUrl: content.avatar_url || undefined,
+  });
+
+  switch (membership) {
+    case MATRIX_MEMBERSHIP.JOIN:
+      if (previousMembership !== MATRIX_MEMBERSHIP.JOIN) {
+        return change("joined");
+      }
+      // A join over a join is a profile change, or nothing at all
+      if (
+        (content.displayname || undefined) ===
+          (previous.displayname || undefined) &&
+        (content.avatar_url || undefined) === (previous.avatar_url || undefined)
+      ) {
+        return null;
+      }
+      return {
+        ...change("profile-changed"),
+        previousDisplayName: previous.displayname || undefined,
+        previousAvatarUrl: previous.avatar_url || undefined,
+      };
+    case MATRIX_MEMBERSHIP.INVITE:
+      return previousMembership === MATRIX_MEMBERSHIP.INVITE
+        ? null
+        : change("invited");
+    case MATRIX_MEMBERSHIP.KNOCK:
+      return previousMembership === MATRIX_MEMBERSHIP.KNOCK
+        ? null
+        : change("knocked");
+    case MATRIX_MEMBERSHIP.BAN:
+      return previousMembership === MATRIX_MEMBERSHIP.BAN
+        ? null
+        : change("banned");
+    case MATRIX_MEMBERSHIP.LEAVE:
+      // Only members leave; other leaves undo invites, knocks and bans
+      if (previousMembership !== MATRIX_MEMBERSHIP.JOIN) {
+        return null;
+      }
+      return change(sender === userId ? "left" : "kicked");
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,98 @@
+import { stripReplyFallback } from "./formatting";
+import type { MatrixMessageContent } from "./types";
+
+/**
+ * Names the bot can be addressed by
+ */
+export interface MentionTarget {
+  /** Full Matrix user ID, e.g. @bot:matrix.org */
+  userId: string;
+  /** Display names, global and per room */
+  displayNames: string[];
+}
+
+/**
+ * Get the localpart of a Matrix user ID (@bot:matrix.org -> bot)
+ */
+export function getLocalpart(userId: string): string {
+  return userId.replace(/^@/, "").split(":")[0];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether the event carries an intentional mention (m.mentions) of the user
+ */
+export function hasIntentionalMention(
+  content: MatrixMessageContent,
+  userId: string,
+): boolean {
+  const userIds = content?.["m.mentions"]?.user_ids;
+  return Array.isArray(userIds) && userIds.includes(userId);
+}
+
+/**
+ * Whether the HTML body links to the user with a matrix.to pill
+ */
+export function hasMentionPill(
+  content: MatrixMessageContent,
+  userId: string,
+): boolean {
+  const html = content?.formatted_body;
+  if (typeof html !== "string") {
+    return false;
+  }
+
+  const links = html.match(/href\s*=\s*["'][^"']*["']/gi) || [];
+  return links.some((link) => {
+    let href = link.replace(/^href\s*=\s*["']|["']$/gi, "");
+    try {
+      href = decodeURIComponent(href);
+    } catch (error) {
+      // Keep the raw href when it is not valid percent-encoding
+    }
+    return href.includes(`matrix.to/#/${userId}`);
+  });
+}
+
+/**
+ * Whether the plain body names the user by display name or localpart
+ */
+export function hasNameMention(
+  content: MatrixMessageContent,
+  target: MentionTarget,
+): boolean {
+  if (typeof content?.body !== "string") {
+    return false;
+  }
+
+  // The quoted fallback of a reply names the original sender, not a mention
+  const body = content["m.relates_to"]?.["m.in_reply_to"]
+    ? stripReplyFallback(content.body)
+    : content.body;
+  const names = [...target.displayNames, getLocalpart(target.userId)].filter(
+    (name) => name && name.trim(),
+  );
+  return names.some((name) =>
+    new RegExp(`(^|[^\\w])@?${escapeRegExp(name.trim())}($|[^\\w])`, "i").test(
+      body,
+    ),
+  );
+}
+
+/**
+ * Whether a message content mentions the user. Replies to the user's own
+ * messages need the replied-to event and are checked by the caller.
+ */
+export function isMentioned(
+  content: MatrixMessageContent,
+  target: MentionTarget,
+): boolean {
+  return (
+    hasIntentionalMention(content, target.userId) ||
+    hasMentionPill(content, target.userId) ||
+    hasNameMention(content, target)
+  );
+}
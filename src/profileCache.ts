@@ -0,0 +1,203 @@
+import type { MatrixMemberContent, MatrixRoomEvent } from "./types";
+
+/**
+ * Reads profiles from the homeserver
+ */
+export interface ProfileSource {
+  getRoomStateEvent(
+    roomId: string,
+    eventType: string,
+    stateKey: string,
+  ): Promise<Partial<MatrixMemberContent>>;
+  getUserProfile(
+    userId: string,
+  ): Promise<{ displayname?: string; avatar_url?: string }>;
+}
+
+/**
+ * Options for the profile cache
+ */
+export interface ProfileCacheOptions {
+  /** How long a global profile is trusted before it is fetched again */
+  ttlMs: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+/**
+ * A user's display name and avatar
+ */
+export interface UserProfile {
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * A display name change seen in a membership event
+ */
+export interface DisplayNameChange {
+  userId: string;
+  previousName?: string;
+  displayName?: string;
+}
+
+interface GlobalProfile extends UserProfile {
+  fetchedAt: number;
+}
+
+/**
+ * Display names and avatars of users. A user's name in a room comes from
+ * their m.room.member state there, falling back to the global profile.
+ * Membership events from sync keep the per-room entries current.
+ */
+export class ProfileCache {
+  /** Per-room member profiles, keyed by room ID, then user ID */
+  private members: Map<string, Map<string, UserProfile>> = new Map();
+  private profiles: Map<string, GlobalProfile> = new Map();
+
+  constructor(
+    private readonly source: ProfileSource,
+    private readonly options: ProfileCacheOptions,
+  ) {}
+
+  /**
+   * Get a user's profile in a room: per-room values first, then the global
+   * profile
+   */
+  async getProfile(roomId: string, userId: string): Promise<UserProfile> {
+    const member = await this.getRoomMember(roomId, userId);
+    if (member?.displayName && member.avatarUrl) {
+      return member;
+    }
+
+    const profile = await this.getGlobalProfile(userId);
+    return {
+      displayName: member?.displayName || profile.displayName,
+      avatarUrl: member?.avatarUrl || profile.avatarUrl,
+    };
+  }
+
+  /**
+   * Get a user's profile from their membership in a room
+   * @returns Null when the membership cannot be read
+   */
+  async getRoomMember(
+    roomId: string,
+    userId: string,
+  ): Promise<UserProfile | null> {
+    const cached = this.members.get(roomId)?.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const content = await this.source.getRoomStateEvent(
+        roomId,
+        "m.room.member",
+        userId,
+      );
+      return this.setRoomMember(roomId, userId, content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Get a user's global profile
+   */
+  async getGlobalProfile(userId: string): Promise<UserProfile> {
+    const cached = this.profiles.get(userId);
+    if (cached && this.now() - cached.fetchedAt < this.options.ttlMs) {
+      return cached;
+    }
+
+    let profile: GlobalProfile = { fetchedAt: this.now() };
+    try {
+      const content = await this.source.getUserProfile(userId);
+      profile = {
+        displayName: content?.displayname || undefined,
+        avatarUrl: content?.avatar_url || undefined,
+        fetchedAt: this.now(),
+      };
+    } catch (error) {
+      // Cache the miss too, so unknown users are not looked up every time
+    }
+    this.profiles.set(userId, profile);
+    return profile;
+  }
+
+  /**
+   * Apply a membership event from sync
+   * @returns The display name change, when the user was known and renamed
+   */
+  applyMemberEvent(
+    roomId: string,
+    event: MatrixRoomEvent,
+  ): DisplayNameChange | null {
+    const userId = event?.state_key;
+    if (typeof userId !== "string") {
+      return null;
+    }
+
+    const content = (event.content || {}) as Partial<MatrixMemberContent>;
+    if (content.membership !== "join") {
+      this.members.get(roomId)?.delete(userId);
+      return null;
+    }
+
+    // A rename is a join over an earlier join, which sync reports as prev_content
+    const prevContent = event.unsigned?.prev_content as
+      | Partial<MatrixMemberContent>
+      | undefined;
+    const previous =
+      this.members.get(roomId)?.get(userId) ??
+      (prevContent?.membership === "join"
+        ? { displayName: prevContent.displayname || undefined }
+        : undefined);
+
+    const member = this.setRoomMember(roomId, userId, content);
+    if (!previous || previous.displayName === member.displayName) {
+      return null;
+    }
+    return {
+      userId,
+      previousName: previous.displayName,
+      displayName: member.displayName,
+    };
+  }
+
+  /**
+   * Forget the members of a room, for example after leaving it
+   */
+  forgetRoom(roomId: string): void {
+    this.members.delete(roomId);
+  }
+
+  clear(): void {
+    this.members.clear();
+    this.profiles.clear();
+  }
+
+  private setRoomMember(
+    roomId: string,
+    userId: string,
+    content: Partial<MatrixMemberContent> | undefined,
+  ): UserProfile {
+    const member: UserProfile = {
+      displayName: content?.displayname || undefined,
+      avatarUrl: content?.avatar_url || undefined,
+    };
+
+    let members = this.members.get(roomId);
+    if (!members) {
+      members = new Map();
+      this.members.set(roomId, members);
+    }
+    members.set(userId, member);
+    return member;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
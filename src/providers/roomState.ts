@@ -28,28 +28,16 @@ export const roomStateProvider: Provider = {
         return "No room ID provided";
       }
 
-      // Get room information
+      // Get room information from the room state cache
       const roomInfo = await service.getRoomInfo(roomId);
 
-      // Get room members
-      const members = await service.client.getRoomMembers(roomId);
-      const memberCount = members.length;
-
-      // Get room state
-      const roomState = await service.client.getRoomState(roomId);
-
-      // Check if room is encrypted
-      const isEncrypted = roomState.some(
-        (event) => event.type === "m.room.encryption",
-      );
-
       const stateInfo = [
         `Room: ${roomInfo.name || roomId}`,
         `ID: ${roomId}`,
         roomInfo.topic ? `Topic: ${roomInfo.topic}` : "",
-        `Members: ${memberCount}`,
+        `Members: ${roomInfo.memberCount}`,
         `Type: ${roomInfo.isDirect ? "Direct Message" : "Group Room"}`,
-        `Encrypted: ${isEncrypted ? "Yes" : "No"}`,
+        `Encrypted: ${roomInfo.isEncrypted ? "Yes" : "No"}`,
         `Allowed by bot: ${service.isRoomAllowed(roomId) ? "Yes" : "No"}`,
       ]
         .filter(Boolean)
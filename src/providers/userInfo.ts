@@ -28,13 +28,19 @@ export const userInfoProvider: Provider = {
         return "No user ID provided";
       }
 
-      // Get user profile
-      const profile = await service.client.getUserProfile(userId);
+      // Cached profile, with the per-room display name when there is a room
+      const roomId = message.content.roomId as string | undefined;
+      const profile = await service.getUserProfile(userId, roomId);
+      const displayName = roomId
+        ? await service.getDisplayName(roomId, userId)
+        : profile.displayName;
 
       const userInfo = [
         `User ID: ${userId}`,
-        profile.displayname ? `Display Name: ${profile.displayname}` : "",
-        profile.avatar_url ? `Avatar: ${profile.avatar_url}` : "",
+        displayName && displayName !== userId
+          ? `Display Name: ${displayName}`
+          : "",
+        profile.avatarUrl ? `Avatar: ${profile.avatarUrl}` : "",
       ]
         .filter(Boolean)
         .join("\n");
@@ -0,0 +1,121 @@
+import type { MatrixMessageContent, MatrixSendOptions } from "./types";
+
+/**
+ * Relation type for threaded messages
+ */
+export const THREAD_RELATION = "m.thread";
+
+/**
+ * Relation type for message edits
+ */
+export const REPLACE_RELATION = "m.replace";
+
+/**
+ * Get the thread root event ID of a message, if it was sent in a thread
+ */
+export function getThreadId(
+  content: MatrixMessageContent | undefined,
+): string | undefined {
+  const relatesTo = content?.["m.relates_to"];
+  if (relatesTo?.rel_type === THREAD_RELATION && relatesTo.event_id) {
+    return relatesTo.event_id;
+  }
+  return undefined;
+}
+
+/**
+ * Get the event ID a message replies to. The in-thread reply fallback is
+ * not a real reply and is ignored.
+ */
+export function getReplyToEventId(
+  content: MatrixMessageContent | undefined,
+): string | undefined {
+  const relatesTo = content?.["m.relates_to"];
+  if (!relatesTo || relatesTo.is_falling_back === true) {
+    return undefined;
+  }
+  return relatesTo["m.in_reply_to"]?.event_id;
+}
+
+/**
+ * Get the event a message continues in a conversation: the event it replies
+ * to or, in a thread, the latest thread event its reply fallback points at
+ */
+export function getParentEventId(
+  content: MatrixMessageContent | undefined,
+): string | undefined {
+  return content?.["m.relates_to"]?.["m.in_reply_to"]?.event_id;
+}
+
+/**
+ * Build the m.relates_to block for an outbound message, or undefined when
+ * the message is not related to another event
+ */
+export function buildRelation(
+  options: MatrixSendOptions = {},
+): Record<string, unknown> | undefined {
+  if (!options.threadId) {
+    return options.replyToEventId
+      ? { "m.in_reply_to": { event_id: options.replyToEventId } }
+      : undefined;
+  }
+
+  if (options.replyToEventId) {
+    return {
+      rel_type: THREAD_RELATION,
+      event_id: options.threadId,
+      is_falling_back: false,
+      "m.in_reply_to": { event_id: options.replyToEventId },
+    };
+  }
+
+  // Clients without thread support show the message as a reply to the
+  // latest event in the thread, so point the fallback there
+  return {
+    rel_type: THREAD_RELATION,
+    event_id: options.threadId,
+    is_falling_back: true,
+    "m.in_reply_to": {
+      event_id: options.threadFallbackEventId || options.threadId,
+    },
+  };
+}
+
+/**
+ * Get the event ID an edit replaces, if the message is an edit
+ */
+export function getReplacedEventId(
+  content: MatrixMessageContent | undefined,
+): string | undefined {
+  const relatesTo = content?.["m.relates_to"];
+  if (relatesTo?.rel_type === REPLACE_RELATION && relatesTo.event_id) {
+    return relatesTo.event_id;
+  }
+  return undefined;
+}
+
+/**
+ * Build the content of an edit event replacing an earlier message.
+ * Clients without edit support show the `* ` prefixed fallback.
+ */
+export function buildReplacement(
+  eventId: string,
+  newContent: Record<string, unknown>,
+): Record<string, unknown> {
+  const fallback: Record<string, unknown> = {
+    ...newContent,
+    body: `* ${newContent.body}`,
+  };
+  if (newContent.formatted_body) {
+    fallback.formatted_body = `* ${newContent.formatted_body}`;
+  }
+
+  return {
+    ...fallback,
+    "m.new_content": newContent,
+    "m.relates_to": {
+      rel_type: REPLACE_RELATION,
+      event_id: eventId,
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import type { MatrixRoomEvent } from "./types";
+
+/** State events bridges set in the rooms they bridge */
+export const BRIDGE_STATE_EVENT_TYPES = ["m.bridge", "uk.half-shot.bridge"];
+
+/**
+ * Content fields of the state events the cache keeps, all of which may be
+ * missing
+ */
+type RoomStateContent = {
+  name?: string;
+  topic?: string;
+  url?: string;
+  alias?: string;
+  alt_aliases?: unknown;
+  join_rule?: string;
+  membership?: string;
+  is_direct?: boolean;
+};
+
+/**
+ * A state event as the homeserver returns it
+ */
+export interface RoomStateEvent {
+  type: string;
+  state_key?: string;
+  content?: RoomStateContent;
+}
+
+/**
+ * Reads room state from the homeserver
+ */
+export interface RoomStateSource {
+  getRoomState(roomId: string): Promise<RoomStateEvent[]>;
+  getJoinedRoomMembers(roomId: string): Promise<string[]>;
+}
+
+/**
+ * Options for the room state cache
+ */
+export interface RoomStateCacheOptions {
+  /** How long fetched state is trusted before it is fetched again */
+  ttlMs: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+/**
+ * What the plugin keeps of a room's state
+ */
+export interface CachedRoomState {
+  name?: string;
+  topic?: string;
+  avatarUrl?: string;
+  /** Aliases from m.room.canonical_alias */
+  canonicalAlias?: string;
+  altAliases: string[];
+  /** Join rule from m.room.join_rules (public, invite, knock, ...) */
+  joinRule?: string;
+  isEncrypted: boolean;
+  /** A bridge has set its state in the room */
+  isBridged: boolean;
+  /** Joined members */
+  members: Set<string>;
+  /** Users whose membership event is marked is_direct */
+  directMembers: Set<string>;
+  /** Content of m.room.power_levels */
+  powerLevels?: Record<string, unknown>;
+  /** When the state was fetched from the homeserver */
+  fetchedAt: number;
+}
+
+/**
+ * Whether a room is a DM: two members, and listed in m.direct when the
+ * account data is available
+ * @param listedAsDirect Whether m.direct lists the room; undefined when the
+ * account data could not be read
+ */
+export function isDirectRoomState(
+  state: CachedRoomState,
+  listedAsDirect?: boolean,
+): boolean {
+  return state.members.size === 2 && listedAsDirect !== false;
+}
+
+function getAltAliases(content: RoomStateContent | undefined): string[] {
+  return Array.isArray(content?.alt_aliases)
+    ? content.alt_aliases.filter(
+        (alias: unknown): alias is string => typeof alias === "string",
+      )
+    : [];
+}
+
+/**
+ * Room state, fetched once and then kept up to date from the state events
+ * that arrive through sync. Entries are refetched after the TTL in case an
+ * update was missed.
+ */
+export class RoomStateCache {
+  private rooms: Map<string, CachedRoomState> = new Map();
+  private pending: Map<string, Promise<CachedRoomState>> = new Map();
+
+  constructor(
+    private readonly source: RoomStateSource,
+    private readonly options: RoomStateCacheOptions,
+  ) {}
+
+  /**
+   * Get a room's state, fetching it when it is missing or stale
+   */
+  async get(roomId: string): Promise<CachedRoomState> {
+    const cached = this.rooms.get(roomId);
+    if (cached && this.now() - cached.fetchedAt < this.options.ttlMs) {
+      return cached;
+    }
+
+    // Concurrent lookups of the same room share one fetch
+    let pending = this.pending.get(roomId);
+    if (!pending) {
+      pending = this.fetch(roomId).finally(() => this.pending.delete(roomId));
+      this.pending.set(roomId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Apply a state event from sync to a cached room. Rooms that are not
+   * cached are left alone; they are fetched in full when next needed.
+   */
+  applyStateEvent(roomId: string, event: MatrixRoomEvent): void {
+    const state = this.rooms.get(roomId);
+    if (!state || typeof event?.state_key !== "string") {
+      return;
+    }
+
+    const content = (event.content || {}) as RoomStateContent;
+    switch (event.type) {
+      case "m.room.name":
+        state.name = content.name || undefined;
+        break;
+      case "m.room.topic":
+        state.topic = content.topic || undefined;
+        break;
+      case "m.room.avatar":
+        state.avatarUrl = content.url || undefined;
+        break;
+      case "m.room.canonical_alias":
+        state.canonicalAlias = content.alias || undefined;
+        state.altAliases = getAltAliases(content);
+        break;
+      case "m.room.join_rules":
+        state.joinRule = content.join_rule || undefined;
+        break;
+      case "m.room.encryption":
+        state.isEncrypted = true;
+        break;
+      case "m.room.power_levels":
+        state.powerLevels = content;
+        break;
+      case "m.room.member":
+        if (content.membership === "join") {
+          state.members.add(event.state_key);
+        } else {
+          state.members.delete(event.state_key);
+        }
+        if (content.is_direct === true) {
+          state.directMembers.add(event.state_key);
+        } else {
+          state.directMembers.delete(event.state_key);
+        }
+        break;
+      default:
+        if (BRIDGE_STATE_EVENT_TYPES.includes(event.type)) {
+          state.isBridged = true;
+        }
+    }
+  }
+
+  /**
+   * Drop a room, for example after leaving it
+   */
+  invalidate(roomId: string): void {
+    this.rooms.delete(roomId);
+  }
+
+  clear(): void {
+    this.rooms.clear();
+  }
+
+  private async fetch(roomId: string): Promise<CachedRoomState> {
+    const [roomState, members] = await Promise.all([
+      this.source.getRoomState(roomId),
+      this.source.getJoinedRoomMembers(roomId),
+    ]);
+
+    const find = (type: string) =>
+      roomState.find((event) => event.type === type)?.content;
+    const state: CachedRoomState = {
+      name: find("m.room.name")?.name,
+      topic: find("m.room.topic")?.topic,
+      avatarUrl: find("m.room.avatar")?.url,
+      canonicalAlias: find("m.room.canonical_alias")?.alias,
+      altAliases: getAltAliases(find("m.room.canonical_alias")),
+      joinRule: find("m.room.join_rules")?.join_rule,
+      isEncrypted: !!find("m.room.encryption"),
+      isBridged: roomState.some((event) =>
+        BRIDGE_STATE_EVENT_TYPES.includes(event.type),
+      ),
+      members: new Set(members),
+      directMembers: new Set(
+        roomState
+          .filter(
+            (event) =>
+              event.type === "m.room.member" &&
+              typeof event.state_key === "string" &&
+              event.content?.is_direct === true,
+          )
+          .map((event) => event.state_key as string),
+      ),
+      powerLevels: find("m.room.power_levels"),
+      fetchedAt: this.now(),
+    };
+
+    this.rooms.set(roomId, state);
+    return state;
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
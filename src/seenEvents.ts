@@ -0,0 +1,55 @@
+/**
+ * Bounded set of event IDs that were already processed. The oldest IDs are
+ * dropped once the cache is full.
+ */
+export class SeenEventCache {
+  private eventIds: Set<string> = new Set();
+
+  constructor(private readonly maxSize: number) {}
+
+  /**
+   * Whether an event was already processed
+   */
+  has(eventId: string): boolean {
+    return this.eventIds.has(eventId);
+  }
+
+  /**
+   * Mark an event as processed
+   * @returns False when the event had been seen before
+   */
+  add(eventId: string): boolean {
+    if (this.eventIds.has(eventId)) {
+      return false;
+    }
+
+    this.eventIds.add(eventId);
+    if (this.eventIds.size > this.maxSize) {
+      const oldest = this.eventIds.values().next().value;
+      if (oldest !== undefined) {
+        this.eventIds.delete(oldest);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Add previously persisted event IDs, oldest first
+   */
+  load(eventIds: string[]): void {
+    for (const eventId of eventIds) {
+      this.add(eventId);
+    }
+  }
+
+  /**
+   * Event IDs in the cache, oldest first
+   */
+  toArray(): string[] {
+    return [...this.eventIds];
+  }
+
+  get size(): number {
+    return this.eventIds.size;
+  }
+}
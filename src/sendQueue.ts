@@ -0,0 +1,330 @@
+/**
+ * An event waiting to be sent to a room
+ */
+export interface OutboundEvent {
+  roomId: string;
+  eventType: string;
+  content: Record<string, unknown>;
+}
+
+/**
+ * Sends events to the homeserver. The transaction ID stays the same across
+ * retries of an event, so the homeserver can drop duplicates.
+ */
+export interface SendQueueTransport {
+  send(event: OutboundEvent, txnId: string): Promise<string>;
+}
+
+/**
+ * Options for the send queue
+ */
+export interface SendQueueOptions {
+  /** Attempts per event before it goes to the dead-letter log */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each further retry */
+  baseDelayMs: number;
+  /** Longest backoff between retries; retry_after_ms is honoured as given */
+  maxDelayMs: number;
+  /** Dead letters kept for inspection */
+  maxDeadLetters: number;
+  /** Called when an event is given up on */
+  onDeadLetter?: (deadLetter: DeadLetter) => void;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+/**
+ * An event that could not be sent
+ */
+export interface DeadLetter extends OutboundEvent {
+  txnId: string;
+  attempts: number;
+  error: string;
+  failedAt: number;
+}
+
+/**
+ * What a failed send may carry: matrix-bot-sdk throws MatrixError for JSON
+ * errors and the raw response otherwise, and Node sets a code on network
+ * errors
+ */
+interface SendFailure {
+  statusCode?: unknown;
+  errcode?: unknown;
+  retryAfterMs?: unknown;
+  body?: { retry_after_ms?: unknown };
+  code?: unknown;
+}
+
+function asSendFailure(error: unknown): SendFailure {
+  return typeof error === "object" && error !== null ? error : {};
+}
+
+/** Network errors worth retrying */
+const RETRYABLE_NETWORK_ERRORS = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+];
+
+/**
+ * How long to wait before retrying a failed send
+ * @param attempt The attempt that failed, starting at 1
+ * @returns Null when the error is permanent
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: Pick<SendQueueOptions, "baseDelayMs" | "maxDelayMs">,
+): number | null {
+  const backoff = Math.min(
+    options.baseDelayMs * 2 ** (attempt - 1),
+    options.maxDelayMs,
+  );
+
+  const failure = asSendFailure(error);
+  const statusCode = failure.statusCode;
+  if (failure.errcode === "M_LIMIT_EXCEEDED" || statusCode === 429) {
+    const retryAfterMs = failure.retryAfterMs ?? failure.body?.retry_after_ms;
+    return typeof retryAfterMs === "number" ? retryAfterMs : backoff;
+  }
+  if (typeof statusCode === "number") {
+    return statusCode >= 500 ? backoff : null;
+  }
+  return typeof failure.code === "string" &&
+    RETRYABLE_NETWORK_ERRORS.includes(failure.code)
+    ? backoff
+    : null;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  const statusCode = asSendFailure(error).statusCode;
+  return typeof statusCode === "number" ? `HTTP ${statusCode}` : String(error);
+}
+
+interface QueuedEvent extends OutboundEvent {
+  txnId: string;
+  resolve: (eventId: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Outbound events, sent one at a time per room in the order they were
+ * queued. Rate-limited sends wait as long as the homeserver asks; server
+ * and network errors are retried with exponential backoff. Events that
+ * still fail end up in the dead-letter log.
+ */
+export class SendQueue {
+  /** Events waiting per room; the first one is being sent */
+  private rooms: Map<string, QueuedEvent[]> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private txnPrefix: string;
+  private txnCounter = 0;
+  private stopped = false;
+  /** The drain timed out; remaining events are given up on */
+  private aborted = false;
+  /** Wakes up retries that are waiting, when the queue is stopped */
+  private waiting: Set<() => void> = new Set();
+  private idle: Set<() => void> = new Set();
+
+  constructor(
+    private readonly transport: SendQueueTransport,
+    private readonly options: SendQueueOptions,
+  ) {
+    this.txnPrefix = `eliza${this.now()}`;
+  }
+
+  /**
+   * Queue an event
+   * @returns The event ID once it is sent
+   */
+  send(
+    roomId: string,
+    eventType: string,
+    content: Record<string, unknown>,
+  ): Promise<string> {
+    if (this.stopped) {
+      return Promise.reject(new Error("Send queue is stopped"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const event: QueuedEvent = {
+        roomId,
+        eventType,
+        content,
+        txnId: `${this.txnPrefix}.${++this.txnCounter}`,
+        resolve,
+        reject,
+      };
+
+      const queue = this.rooms.get(roomId);
+      if (queue) {
+        queue.push(event);
+        return;
+      }
+      this.rooms.set(roomId, [event]);
+      void this.process(roomId);
+    });
+  }
+
+  /** Events waiting to be sent, across rooms */
+  get size(): number {
+    let size = 0;
+    for (const queue of this.rooms.values()) {
+      size += queue.length;
+    }
+    return size;
+  }
+
+  /**
+   * Events that could not be sent, oldest first
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Stop accepting events and wait for the queued ones to be sent. Events
+   * still waiting when the timeout passes are given up on, and requests
+   * already in flight are not waited for.
+   */
+  async drain(timeoutMs: number): Promise<void> {
+    this.stopped = true;
+    if (this.rooms.size === 0) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    });
+    const drained = new Promise<boolean>((resolve) => {
+      this.idle.add(() => resolve(false));
+    });
+
+    if (await Promise.race([drained, timedOut])) {
+      // Retries stop waiting and fail; queued events fail with them
+      this.aborted = true;
+      for (const wake of this.waiting) {
+        wake();
+      }
+      for (const queue of this.rooms.values()) {
+        for (const event of queue.splice(1)) {
+          event.reject(this.giveUp(event, 0));
+        }
+      }
+    }
+    clearTimeout(timer);
+  }
+
+  private async process(roomId: string): Promise<void> {
+    const queue = this.rooms.get(roomId);
+    while (queue && queue.length > 0) {
+      const event = queue[0];
+      try {
+        event.resolve(await this.deliver(event));
+      } catch (error) {
+        event.reject(
+          error instanceof Error ? error : new Error(describeError(error)),
+        );
+      }
+      queue.shift();
+    }
+
+    this.rooms.delete(roomId);
+    if (this.rooms.size === 0) {
+      for (const resolve of this.idle) {
+        resolve();
+      }
+      this.idle.clear();
+    }
+  }
+
+  private async deliver(event: QueuedEvent): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      if (this.aborted) {
+        throw this.giveUp(event, attempt - 1);
+      }
+      try {
+        return await this.transport.send(
+          {
+            roomId: event.roomId,
+            eventType: event.eventType,
+            content: event.content,
+          },
+          event.txnId,
+        );
+      } catch (error) {
+        const delay = getRetryDelay(error, attempt, this.options);
+        if (
+          delay === null ||
+          attempt >= this.options.maxAttempts ||
+          !(await this.wait(delay))
+        ) {
+          this.addDeadLetter(event, attempt, error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Wait before a retry
+   * @returns False when the queue was stopped in the meantime
+   */
+  private wait(delayMs: number): Promise<boolean> {
+    if (this.aborted) {
+      return Promise.resolve(false);
+    }
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.waiting.delete(wake);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        this.waiting.delete(wake);
+        resolve(true);
+      }, delayMs);
+      this.waiting.add(wake);
+    });
+  }
+
+  /**
+   * Give up on an event because the queue stopped before it was sent
+   * @returns The error to fail the event with
+   */
+  private giveUp(event: QueuedEvent, attempts: number): Error {
+    const error = new Error("Send queue stopped before the event was sent");
+    this.addDeadLetter(event, attempts, error);
+    return error;
+  }
+
+  private addDeadLetter(event: QueuedEvent, attempts: number, error: unknown) {
+    const deadLetter: DeadLetter = {
+      roomId: event.roomId,
+      eventType: event.eventType,
+      content: event.content,
+      txnId: event.txnId,
+      attempts,
+      error: describeError(error),
+      failedAt: this.now(),
+    };
+    this.deadLetters.push(deadLetter);
+    if (this.deadLetters.length > this.options.maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+    this.options.onDeadLetter?.(deadLetter);
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+}
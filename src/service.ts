@@ -8,6 +8,7 @@ import {
   type IAgentRuntime,
   type Media,
   type Memory,
+  ModelType,
   Role,
   Service,
   type TargetInfo,
@@ -19,12 +20,12 @@ import {
 import {
   MatrixClient,
   SimpleFsStorageProvider,
-  AutojoinRoomsMixin,
-  MatrixEvent,
+  EncryptedRoomEvent,
   MessageEvent,
   MessageEventContent,
   RoomEvent,
   MembershipEvent,
+  PowerLevelAction,
   RustSdkCryptoStorageProvider,
 } from "matrix-bot-sdk";
 import * as https from "https";
@@ -33,15 +34,234 @@ import {
   MATRIX_SERVICE_NAME,
   MATRIX_EVENT_TYPES,
   MATRIX_MESSAGE_TYPES,
-  MATRIX_MEMBERSHIP,
 } from "./constants";
 import {
   MatrixEventTypes,
   type IMatrixService,
   type MatrixSettings,
   type MatrixRoom,
+  type MatrixSendOptions,
+  type DirectMessagePolicy,
+  type BotMessagePolicy,
+  type LastProcessedEvent,
+  type MatrixBackfillOptions,
+  type MatrixBackfillResult,
+  type MatrixRoomProfile,
+  type FloodAction,
+  type AllowedRoom,
+  type AllowedRoomSource,
+  type MembershipTransition,
+  type MatrixRoomEvent,
+  type MatrixMessageContent,
+  type MatrixMemberContent,
 } from "./types";
-import { validateMatrixConfig } from "./environment";
+import { validateMatrixConfig, validateRoomProfiles } from "./environment";
+import {
+  type InboundText,
+  normalizeInboundText,
+  renderMarkdown,
+  splitMarkdown,
+} from "./formatting";
+import {
+  buildRelation,
+  buildReplacement,
+  getReplacedEventId,
+  getParentEventId,
+  getReplyToEventId,
+  getThreadId,
+} from "./relations";
+import { StreamingReply } from "./streaming";
+import { TypingIndicator } from "./typing";
+import { isMentioned } from "./mentions";
+import {
+  DirectRoomIndex,
+  isAllowlisted,
+  isNotFoundError,
+} from "./directMessages";
+import { BotClassifier } from "./bots";
+import { LoopGuard, type LoopTrip } from "./loopGuard";
+import { SeenEventCache } from "./seenEvents";
+import { type HistoryEvent, fetchRoomHistory } from "./backfill";
+import {
+  type CachedRoomState,
+  RoomStateCache,
+  isDirectRoomState,
+} from "./roomStateCache";
+import {
+  type DisplayNameChange,
+  ProfileCache,
+  type UserProfile,
+} from "./profileCache";
+import { type DeadLetter, type OutboundEvent, SendQueue } from "./sendQueue";
+import { parseStateChange } from "./stateEvents";
+import { type MembershipChange, classifyMembership } from "./membership";
+import {
+  type FloodScope,
+  type FloodViolation,
+  type InboundBudgets,
+  InboundLimiter,
+} from "./inboundLimiter";
+import {
+  evaluateInvite,
+  type PendingInvite,
+  type StoredPendingInvites,
+  type RejectedInvite,
+  type RoomInvite,
+} from "./invites";
+
+/**
+ * What the message handlers already know about an edit's sender and room
+ */
+interface EditGate {
+  profile: MatrixRoomProfile;
+  senderIsBot: boolean;
+  botPolicy: BotMessagePolicy;
+  replayed: boolean;
+}
+
+/**
+ * Messages the bot sent in response to an event, and where it sent them
+ */
+interface SentResponse {
+  eventIds: string[];
+  options: MatrixSendOptions;
+}
+
+/** Split messages longer than this (Matrix allows 65536 chars, but we use a smaller limit) */
+const MAX_MESSAGE_LENGTH = 4096;
+
+/** Default time between edits of a streamed reply */
+const DEFAULT_STREAM_EDIT_INTERVAL_MS = 1500;
+
+/** Lower bound for the stream edit interval, to stay clear of rate limits */
+const MIN_STREAM_EDIT_INTERVAL_MS = 500;
+
+/** Timeout sent with typing notifications (the server drops them after this) */
+const TYPING_TIMEOUT_MS = 30000;
+
+/** Typing notifications are renewed this often, before the server timeout */
+const TYPING_RENEW_INTERVAL_MS = 25000;
+
+/** Default longest time the bot shows as typing for one message */
+const DEFAULT_TYPING_MAX_DURATION_MS = 120000;
+
+/** Default number of exchanges with one sender that trips the loop guard */
+const DEFAULT_LOOP_GUARD_MAX_EXCHANGES = 8;
+
+/** Default reply chain depth that trips the loop guard: 12 exchanges */
+const DEFAULT_LOOP_GUARD_MAX_REPLY_DEPTH = 24;
+
+/** Default window the loop guard counts exchanges in */
+const DEFAULT_LOOP_GUARD_WINDOW_MS = 120000;
+
+/** Default time the loop guard stays tripped */
+const DEFAULT_LOOP_GUARD_COOLDOWN_MS = 600000;
+
+/** Default inbound budgets; generous enough for busy rooms */
+const DEFAULT_INBOUND_LIMITS: Required<InboundBudgets> = {
+  sender: { burst: 10, perMinute: 20 },
+  room: { burst: 30, perMinute: 120 },
+  global: { burst: 100, perMinute: 600 },
+};
+
+/** Messages per room held back by the "queue" flood action */
+const MAX_QUEUED_INBOUND_PER_ROOM = 20;
+
+/** Flood violations kept for moderators to inspect */
+const MAX_FLOOD_VIOLATIONS = 100;
+
+/** Default notice for the "notify" flood action; {user} is the sender */
+const DEFAULT_FLOOD_NOTICE =
+  "{user}, you are sending messages faster than I can keep up with. I will skip your messages for a little while.";
+
+/** Events emitted for each membership transition */
+const MEMBERSHIP_EVENTS: Record<MembershipTransition, string[]> = {
+  joined: [MatrixEventTypes.USER_JOINED, EventType.ENTITY_JOINED],
+  left: [MatrixEventTypes.USER_LEFT, EventType.ENTITY_LEFT],
+  kicked: [MatrixEventTypes.USER_KICKED, EventType.ENTITY_LEFT],
+  banned: [MatrixEventTypes.USER_BANNED, EventType.ENTITY_LEFT],
+  // Invited and knocking users are not members yet
+  invited: [MatrixEventTypes.USER_INVITED],
+  knocked: [MatrixEventTypes.USER_KNOCKED],
+  "profile-changed": [
+    MatrixEventTypes.USER_PROFILE_CHANGED,
+    EventType.ENTITY_UPDATED,
+  ],
+};
+
+/** Default time an operator has to answer an invite */
+const DEFAULT_INVITE_APPROVAL_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+/** Reactions an operator answers a forwarded invite with */
+const INVITE_ACCEPT_REACTIONS = ["👍", "✅"];
+const INVITE_DECLINE_REACTIONS = ["👎", "❌"];
+
+/** Rejected invites kept for inspection */
+const MAX_REJECTED_INVITES = 100;
+
+/** Number of processed event IDs remembered, across restarts */
+const MAX_SEEN_EVENTS = 5000;
+
+/** Runtime cache key for the processed event IDs */
+const SEEN_EVENTS_CACHE_KEY = "matrix/seen-event-ids";
+
+/** Runtime cache key for the last processed event of each room */
+const LAST_PROCESSED_CACHE_KEY = "matrix/last-processed-events";
+
+/** Runtime cache key for rooms added to the allowlist at runtime */
+const ALLOWED_ROOMS_CACHE_KEY = "matrix/allowed-rooms";
+
+/** Runtime cache key for invites waiting for an operator's answer */
+const PENDING_INVITES_CACHE_KEY = "matrix/pending-invites";
+
+/** Delay before the inbound state is written to the runtime cache */
+const INBOUND_STATE_SAVE_DELAY_MS = 5000;
+
+/** Event types the startup policy applies to */
+const STARTUP_POLICY_EVENT_TYPES: string[] = [
+  MATRIX_EVENT_TYPES.MESSAGE,
+  MATRIX_EVENT_TYPES.ENCRYPTED,
+  MATRIX_EVENT_TYPES.REACTION,
+];
+
+/** Quiet time after the last replayed message before a room's catch-up summary */
+const CATCH_UP_SUMMARY_DELAY_MS = 10000;
+
+/** Number of replayed messages per room included in the catch-up summary */
+const MAX_CATCH_UP_MESSAGES = 50;
+
+/** Messages imported by a room backfill unless configured otherwise */
+const DEFAULT_BACKFILL_LIMIT = 100;
+
+/** Time after a failed m.direct read before it is read again */
+const DIRECT_ROOMS_RETRY_MS = 60 * 1000;
+
+/** How long cached room state is trusted without a sync update */
+const DEFAULT_ROOM_STATE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** How long a global profile is trusted before it is fetched again */
+const DEFAULT_PROFILE_CACHE_TTL_MS = 30 * 60 * 1000;
+
+/** Number of bot responses remembered for regenerating replies on edit */
+const MAX_TRACKED_RESPONSES = 500;
+
+/** Number of reactions remembered for reporting their removal */
+const MAX_TRACKED_REACTIONS = 1000;
+
+/** Attempts per outbound event unless configured otherwise */
+const DEFAULT_SEND_MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry of a failed send */
+const SEND_RETRY_BASE_DELAY_MS = 1000;
+
+/** Longest backoff between send retries unless configured otherwise */
+const DEFAULT_SEND_RETRY_MAX_DELAY_MS = 30000;
+
+/** Number of unsent events kept in the dead-letter log */
+const MAX_DEAD_LETTERS = 100;
+
+/** How long stop() waits for queued events to be sent */
+const SEND_QUEUE_DRAIN_TIMEOUT_MS = 10000;
 
 /**
  * MatrixService class for interacting with Matrix protocol.
@@ -55,8 +275,65 @@ export class MatrixService extends Service implements IMatrixService {
   client: MatrixClient | null;
   character: Character;
   private matrixSettings: MatrixSettings;
+  /** Validated per-room profiles, keyed by room ID or alias */
+  private roomProfiles: Record<string, MatrixRoomProfile> = {};
+  /** Recent response times per room, for profile rate limits */
+  private roomResponseTimes: Map<string, number[]> = new Map();
   private allowedRoomIds?: string[];
-  private dynamicRoomIds: Set<string> = new Set();
+  /** Rooms added to the allowlist at runtime, kept across restarts */
+  private dynamicRooms: Map<string, AllowedRoom> = new Map();
+  /** Resolves once the persisted allowlist is loaded */
+  private allowedRoomsLoaded: Promise<void>;
+  /** Invites waiting for an operator, keyed by the event that asked */
+  private pendingInvites: Map<string, PendingInvite> = new Map();
+  private pendingInvitesLoaded: Promise<void>;
+  private rejectedInvites: RejectedInvite[] = [];
+  /** Bot responses, keyed by the event that triggered them */
+  private responses: Map<string, SentResponse> = new Map();
+  /** Recent reaction memories, keyed by reaction event ID */
+  private reactionMemories: Map<string, Memory> = new Map();
+  /** DM rooms that already received the rejection notice */
+  private rejectedDirectRooms: Set<string> = new Set();
+  /** Streamed replies with an edit still to send */
+  private activeStreams: Set<StreamingReply> = new Set();
+  /** Rooms joined through an invite marked is_direct */
+  private directInviteRoomIds: Set<string> = new Set();
+  /** Room state, kept up to date from sync */
+  private roomStateCache: RoomStateCache;
+  /** Display names and avatars, per room and global */
+  private profileCache: ProfileCache;
+  /** DM rooms by user, from m.direct */
+  private directRooms: DirectRoomIndex = new DirectRoomIndex();
+  private directRoomsLoaded: Promise<void> | null = null;
+  /** When reading m.direct last failed, to hold off the next read */
+  private directRoomsFailedAt = 0;
+  /** Typing notifications shown while messages are being answered */
+  private typingIndicator: TypingIndicator;
+  /** Outbound events, in order per room, with retries */
+  private sendQueue: SendQueue;
+  /** Tells bot senders apart from humans */
+  private botClassifier: BotClassifier;
+  /** Stops the bot from ping-ponging with other bots */
+  private loopGuard: LoopGuard;
+  /** Keeps floods of inbound messages away from the agent */
+  private inboundLimiter: InboundLimiter = new InboundLimiter({
+    maxQueuedPerRoom: MAX_QUEUED_INBOUND_PER_ROOM,
+    maxViolations: MAX_FLOOD_VIOLATIONS,
+  });
+  /** Events already processed, so each is handled once */
+  private seenEvents: SeenEventCache = new SeenEventCache(MAX_SEEN_EVENTS);
+  /** Last processed message of each room, for catching up after restarts */
+  private lastProcessedEvents: Map<string, LastProcessedEvent> = new Map();
+  /** Resolves once the persisted inbound state is loaded */
+  private inboundStateLoaded: Promise<void>;
+  private inboundStateSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the service started; older events fall under the startup policy */
+  private startedAt = Date.now();
+  /** Messages replayed on catch-up, per room, for the summary */
+  private catchUpMessages: Map<string, string[]> = new Map();
+  private catchUpTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** Rooms whose initial sync timeline was checked for a catch-up gap */
+  private catchUpCheckedRooms: Set<string> = new Set();
 
   constructor(runtime: IAgentRuntime) {
     super(runtime);
@@ -68,6 +345,99 @@ export class MatrixService extends Service implements IMatrixService {
     }
 
     this.character = runtime.character;
+    this.inboundStateLoaded = this.loadInboundState();
+    this.allowedRoomsLoaded = this.loadAllowedRooms();
+    this.pendingInvitesLoaded = this.loadPendingInvites();
+
+    this.botClassifier = new BotClassifier({
+      userIdPatterns: this.matrixSettings.botUserIdPatterns,
+      appserviceNamespaces: this.matrixSettings.appserviceNamespaces,
+      botUserIds: this.matrixSettings.botUserIds,
+      humanUserIds: this.matrixSettings.humanUserIds,
+      detectNotices: this.matrixSettings.detectBotNotices,
+      onInvalidPattern: (pattern, error) =>
+        this.runtime.logger.warn(
+          `Ignoring invalid bot user ID pattern ${pattern}: ${error}`,
+        ),
+    });
+
+    this.loopGuard = new LoopGuard({
+      maxExchanges:
+        this.matrixSettings.loopGuardMaxExchanges ??
+        DEFAULT_LOOP_GUARD_MAX_EXCHANGES,
+      windowMs:
+        this.matrixSettings.loopGuardWindowMs ?? DEFAULT_LOOP_GUARD_WINDOW_MS,
+      maxReplyDepth:
+        this.matrixSettings.loopGuardMaxReplyDepth ??
+        DEFAULT_LOOP_GUARD_MAX_REPLY_DEPTH,
+      cooldownMs:
+        this.matrixSettings.loopGuardCooldownMs ??
+        DEFAULT_LOOP_GUARD_COOLDOWN_MS,
+    });
+
+    this.roomStateCache = new RoomStateCache(
+      {
+        getRoomState: async (roomId) =>
+          this.requireClient().getRoomState(roomId),
+        getJoinedRoomMembers: async (roomId) =>
+          this.requireClient().getJoinedRoomMembers(roomId),
+      },
+      {
+        ttlMs:
+          this.matrixSettings.roomStateCacheTtlMs ??
+          DEFAULT_ROOM_STATE_CACHE_TTL_MS,
+      },
+    );
+
+    this.profileCache = new ProfileCache(
+      {
+        getRoomStateEvent: async (roomId, eventType, stateKey) =>
+          this.requireClient().getRoomStateEvent(roomId, eventType, stateKey),
+        getUserProfile: async (userId) =>
+          this.requireClient().getUserProfile(userId),
+      },
+      {
+        ttlMs:
+          this.matrixSettings.profileCacheTtlMs ?? DEFAULT_PROFILE_CACHE_TTL_MS,
+      },
+    );
+
+    this.sendQueue = new SendQueue(
+      {
+        send: (event, txnId) => this.sendQueuedEvent(event, txnId),
+      },
+      {
+        maxAttempts:
+          this.matrixSettings.sendMaxAttempts ?? DEFAULT_SEND_MAX_ATTEMPTS,
+        baseDelayMs: SEND_RETRY_BASE_DELAY_MS,
+        maxDelayMs:
+          this.matrixSettings.sendRetryMaxDelayMs ??
+          DEFAULT_SEND_RETRY_MAX_DELAY_MS,
+        maxDeadLetters: MAX_DEAD_LETTERS,
+        onDeadLetter: (deadLetter) =>
+          this.runtime.logger.error(
+            `Gave up sending ${deadLetter.eventType} to room ${deadLetter.roomId} after ${deadLetter.attempts} attempts: ${deadLetter.error}`,
+          ),
+      },
+    );
+
+    this.typingIndicator = new TypingIndicator(
+      {
+        setTyping: async (roomId, typing, timeoutMs) =>
+          this.client?.setTyping(roomId, typing, timeoutMs),
+      },
+      {
+        timeoutMs: TYPING_TIMEOUT_MS,
+        renewIntervalMs: TYPING_RENEW_INTERVAL_MS,
+        maxDurationMs:
+          this.matrixSettings.typingTimeoutMs ??
+          DEFAULT_TYPING_MAX_DURATION_MS,
+        onError: (error) =>
+          this.runtime.logger.debug(
+            `Failed to send typing notification: ${error}`,
+          ),
+      },
+    );
 
     // Parse MATRIX_ROOM_IDS env var to restrict the bot to specific rooms
     const roomIdsRaw = runtime.getSetting("MATRIX_ROOM_IDS") as
@@ -91,6 +461,7 @@ export class MatrixService extends Service implements IMatrixService {
           "MATRIX_ENCRYPTION_ENABLED",
         ),
       });
+      this.roomProfiles = validateRoomProfiles(this.matrixSettings.rooms);
 
       if (
         !config.MATRIX_ACCESS_TOKEN ||
@@ -127,9 +498,6 @@ export class MatrixService extends Service implements IMatrixService {
         cryptoStore,
       );
 
-      // Enable auto-join for room invites
-      AutojoinRoomsMixin.setupOnClient(this.client);
-
       this.setupEventListeners();
       this.registerSendHandler();
 
@@ -175,60 +543,15 @@ export class MatrixService extends Service implements IMatrixService {
     }
 
     try {
-      // Get basic room state
-      const roomState = await this.client.getRoomState(roomId);
-
-      // Extract room name
-      const nameEvent = roomState.find((event) => event.type === "m.room.name");
-      const name = nameEvent?.content?.name;
-
-      // Extract room topic
-      const topicEvent = roomState.find(
-        (event) => event.type === "m.room.topic",
-      );
-      const topic = topicEvent?.content?.topic;
-
-      // Extract room avatar
-      const avatarEvent = roomState.find(
-        (event) => event.type === "m.room.avatar",
-      );
-      const avatarUrl = avatarEvent?.content?.url;
-
-      // Check if room is encrypted
-      const encryptionEvent = roomState.find(
-        (event) => event.type === "m.room.encryption",
-      );
-      const isEncrypted = !!encryptionEvent;
-
-      // Get room members to check if it's a DM and get member count
-      const members = await this.client.getRoomMembers(roomId);
-      const memberCount = members.length;
-
-      // Check if it's a direct message room (exactly 2 members)
-      let isDirect = false;
-      if (memberCount === 2) {
-        // Additional check: look for m.direct account data
-        try {
-          const accountData = await this.client.getAccountData("m.direct");
-          if (accountData) {
-            // Check if this room is listed in any user's direct rooms
-            const directRooms = Object.values(accountData).flat() as string[];
-            isDirect = directRooms.includes(roomId);
-          }
-        } catch (error) {
-          // If we can't get account data, fall back to member count check
-          isDirect = memberCount === 2;
-        }
-      }
-
+      const state = await this.roomStateCache.get(roomId);
       return {
         id: roomId,
-        name,
-        topic,
-        isDirect,
-        isEncrypted,
-        memberCount,
-        avatarUrl,
+        name: state.name,
+        topic: state.topic,
+        isDirect: isDirectRoomState(state, await this.isListedAsDirect(roomId)),
+        isEncrypted: state.isEncrypted,
+        memberCount: state.members.size,
+        avatarUrl: state.avatarUrl,
       };
     } catch (error) {
       this.runtime.logger.error(
@@ -245,36 +568,186 @@ export class MatrixService extends Service implements IMatrixService {
   }
 
   /**
-   * Check if a room is a direct message room
+   * Get the cached state of a room: joined members, power levels and the
+   * room details. Fetched on first use, then kept up to date from sync.
    */
-  private async isDirectRoom(roomId: string): Promise<boolean> {
-    if (!this.client) {
-      return false;
-    }
+  public async getCachedRoomState(roomId: string): Promise<CachedRoomState> {
+    return this.roomStateCache.get(roomId);
+  }
 
-    try {
-      // First check member count
-      const members = await this.client.getRoomMembers(roomId);
-      if (members.length !== 2) {
-        return false;
-      }
+  /**
+   * Get the name a user goes by in a room: their per-room display name,
+   * then their global display name, then their user ID
+   */
+  public async getDisplayName(roomId: string, userId: string): Promise<string> {
+    const profile = await this.profileCache.getProfile(roomId, userId);
+    return profile.displayName || userId;
+  }
 
-      // Check m.direct account data
-      try {
-        const accountData = await this.client.getAccountData("m.direct");
-        if (accountData) {
-          const directRooms = Object.values(accountData).flat() as string[];
-          return directRooms.includes(roomId);
-        }
-      } catch (error) {
-        // If we can't get account data, assume it's direct if only 2 members
-        return true;
+  /**
+   * Get a user's display name and avatar as they appear in a room, or their
+   * global profile without a room. Served from the profile cache.
+   */
+  public async getUserProfile(
+    userId: string,
+    roomId?: string,
+  ): Promise<UserProfile> {
+    return roomId
+      ? this.profileCache.getProfile(roomId, userId)
+      : this.profileCache.getGlobalProfile(userId);
+  }
+
+  /**
+   * Read m.direct into the DM index, once; later changes arrive as account
+   * data through sync. A failed read is retried once DIRECT_ROOMS_RETRY_MS
+   * has passed, unless sync delivered m.direct in the meantime.
+   */
+  private loadDirectRooms(): Promise<void> {
+    if (this.directRooms.isLoaded) {
+      return Promise.resolve();
+    }
+    if (!this.directRoomsLoaded) {
+      if (Date.now() - this.directRoomsFailedAt < DIRECT_ROOMS_RETRY_MS) {
+        return Promise.resolve();
       }
+      this.directRoomsLoaded = (async () => {
+        try {
+          this.directRooms.load(
+            await this.requireClient().getAccountData("m.direct"),
+          );
+        } catch (error) {
+          if (isNotFoundError(error)) {
+            // The account has no DMs yet
+            this.directRooms.load({});
+            return;
+          }
+          // Until m.direct is read, DMs are recognised by their membership
+          this.directRoomsLoaded = null;
+          this.directRoomsFailedAt = Date.now();
+          this.runtime.logger.warn(`Failed to read m.direct: ${error}`);
+        }
+      })();
+    }
+    return this.directRoomsLoaded;
+  }
 
-      return false;
+  /**
+   * Whether m.direct lists a room; undefined when m.direct is not available
+   */
+  private async isListedAsDirect(roomId: string): Promise<boolean | undefined> {
+    await this.loadDirectRooms();
+    return this.directRooms.isLoaded ? this.directRooms.has(roomId) : undefined;
+  }
+
+  /**
+   * Whether a room is known to be a DM, rather than inferred from its
+   * member count: m.direct lists it, or the bot joined it through an
+   * invite marked is_direct
+   */
+  private async isMarkedAsDirect(roomId: string): Promise<boolean> {
+    return (
+      this.directInviteRoomIds.has(roomId) ||
+      (await this.isListedAsDirect(roomId)) === true
+    );
+  }
+
+  /**
+   * Add a DM room to the index and write it back to m.direct, so other
+   * clients and later lookups find it
+   */
+  private async recordDirectRoom(userId: string, roomId: string) {
+    // Load m.direct first so writing it back keeps the other entries
+    await this.loadDirectRooms();
+    if (!this.directRooms.isLoaded) {
+      // Writing an index without the other entries would lose them
+      this.runtime.logger.warn(
+        `Not recording ${roomId} as a DM with ${userId}: m.direct is not loaded`,
+      );
+      return;
+    }
+    if (!this.directRooms.add(userId, roomId)) {
+      return;
+    }
+
+    try {
+      await this.client?.setAccountData(
+        "m.direct",
+        this.directRooms.toContent(),
+      );
     } catch (error) {
-      return false;
+      this.runtime.logger.warn(`Failed to update m.direct: ${error}`);
+    }
+  }
+
+  private requireClient(): MatrixClient {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+    return this.client;
+  }
+
+  /**
+   * Queue an event for a room. Every outbound message goes through the send
+   * queue, which keeps each room's events in order and retries rate-limited
+   * and failed sends.
+   * @returns Event ID of the sent event
+   */
+  public sendEvent(
+    roomId: string,
+    eventType: string,
+    content: Record<string, unknown>,
+  ): Promise<string> {
+    return this.sendQueue.send(roomId, eventType, content);
+  }
+
+  /**
+   * Outbound events that could not be sent, oldest first
+   */
+  public getDeadLetters(): DeadLetter[] {
+    return this.sendQueue.getDeadLetters();
+  }
+
+  /**
+   * Send one queued event with its transaction ID, encrypting it for
+   * encrypted rooms. matrix-bot-sdk picks a new transaction ID for every
+   * send, so the request is made directly.
+   */
+  private async sendQueuedEvent(
+    event: OutboundEvent,
+    txnId: string,
+  ): Promise<string> {
+    const client = this.requireClient();
+    const roomPath = `/_matrix/client/v3/rooms/${encodeURIComponent(event.roomId)}`;
+
+    if (event.eventType === "m.room.redaction") {
+      const { redacts, ...content } = event.content;
+      const response = await client.doRequest(
+        "PUT",
+        `${roomPath}/redact/${encodeURIComponent(String(redacts))}/${encodeURIComponent(txnId)}`,
+        null,
+        content,
+      );
+      return response.event_id;
+    }
+
+    let eventType = event.eventType;
+    let content: object = event.content;
+    if (await client.crypto?.isRoomEncrypted(event.roomId)) {
+      content = await client.crypto.encryptRoomEvent(
+        event.roomId,
+        eventType,
+        content,
+      );
+      eventType = "m.room.encrypted";
     }
+
+    const response = await client.doRequest(
+      "PUT",
+      `${roomPath}/send/${encodeURIComponent(eventType)}/${encodeURIComponent(txnId)}`,
+      null,
+      content,
+    );
+    return response.event_id;
   }
 
   /**
@@ -357,14 +830,9 @@ export class MatrixService extends Service implements IMatrixService {
       }
 
       if (content.text) {
-        // Split message if longer than Matrix limit (65536 chars, but we'll use a smaller limit)
-        const chunks = this.splitMessage(content.text, 4096);
-        for (const chunk of chunks) {
-          await this.client.sendMessage(targetRoomId, {
-            msgtype: MATRIX_MESSAGE_TYPES.TEXT,
-            body: chunk,
-          });
-        }
+        await this.sendTextMessage(targetRoomId, content.text, {
+          threadId: target.threadId,
+        });
       }
 
       // Handle attachments (images, files, etc.)
@@ -418,7 +886,7 @@ export class MatrixService extends Service implements IMatrixService {
               );
               
               // Send image message
-              await this.client.sendMessage(targetRoomId, {
+              await this.sendEvent(targetRoomId, "m.room.message", {
                 msgtype: MATRIX_MESSAGE_TYPES.IMAGE,
                 body: attachment.title || "image",
                 url: mxcUrl,
@@ -454,140 +922,1288 @@ export class MatrixService extends Service implements IMatrixService {
   }
 
   /**
-   * Helper function to split a string into chunks of a maximum length.
+   * Whether agent Markdown should be rendered as HTML in a room
    */
-  private splitMessage(text: string, maxLength: number): string[] {
-    const chunks: string[] = [];
-    let currentChunk = "";
-    const lines = text.split("\n");
-
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 <= maxLength) {
-        currentChunk += (currentChunk ? "\n" : "") + line;
-      } else {
-        if (currentChunk) chunks.push(currentChunk);
-
-        if (line.length > maxLength) {
-          for (let i = 0; i < line.length; i += maxLength) {
-            chunks.push(line.substring(i, i + maxLength));
-          }
-          currentChunk = "";
-        } else {
-          currentChunk = line;
-        }
-      }
+  private shouldRenderMarkdown(roomId: string): boolean {
+    if (this.matrixSettings.renderMarkdown === false) {
+      return false;
     }
+    return !this.matrixSettings.plainTextRoomIds?.includes(roomId);
+  }
 
-    if (currentChunk) chunks.push(currentChunk);
-    return chunks;
+  /**
+   * Build text content for a room, with a formatted_body when the text
+   * contains Markdown and formatting is enabled for the room
+   * @param msgtype m.text, or m.notice for rooms whose profile asks for it
+   */
+  public formatTextContent(
+    roomId: string,
+    text: string,
+    msgtype: string = MATRIX_MESSAGE_TYPES.TEXT,
+  ): Record<string, unknown> {
+    const formatted = this.shouldRenderMarkdown(roomId)
+      ? renderMarkdown(text)
+      : { body: text };
+    return {
+      msgtype,
+      ...formatted,
+    };
   }
 
   /**
-   * Get or create a DM room with a user
+   * Message type of the bot's text messages in a room
    */
-  private async getOrCreateDMRoom(userId: string): Promise<string> {
+  private async getTextMessageType(roomId: string): Promise<string> {
+    return (
+      (await this.getRoomProfile(roomId)).messageType ??
+      MATRIX_MESSAGE_TYPES.TEXT
+    );
+  }
+
+  /**
+   * Send agent text to a room, splitting it into chunks below the Matrix
+   * size limit. Used by every outbound text path.
+   * @returns Event IDs of the sent chunks
+   */
+  public async sendTextMessage(
+    roomId: string,
+    text: string,
+    options: MatrixSendOptions = {},
+  ): Promise<string[]> {
     if (!this.client) {
       throw new Error("Matrix client not available");
     }
 
-    try {
-      // Try to find existing DM room
-      const rooms = await this.client.getJoinedRooms();
-      for (const roomId of rooms) {
-        if (await this.isDirectRoom(roomId)) {
-          const members = await this.client.getRoomMembers(roomId);
-          if (
-            members.length === 2 &&
-            members.some((m) => m.userId === userId)
-          ) {
-            return roomId;
-          }
-        }
+    const relation = buildRelation(options);
+    const msgtype = await this.getTextMessageType(roomId);
+    const eventIds: string[] = [];
+    const chunks = splitMarkdown(text, MAX_MESSAGE_LENGTH);
+    for (const chunk of chunks) {
+      const content = this.formatTextContent(roomId, chunk, msgtype);
+      if (relation) {
+        content["m.relates_to"] = relation;
       }
-
-      // Create new DM room
-      const roomId = await this.client.createRoom({
-        invite: [userId],
-        is_direct: true,
-        preset: "trusted_private_chat",
-      });
-
-      return roomId;
-    } catch (error) {
-      throw new Error(`Failed to get or create DM room: ${error}`);
+      const eventId = await this.sendEvent(roomId, "m.room.message", content);
+      eventIds.push(eventId);
     }
+    return eventIds;
   }
 
   /**
-   * Set up event listeners for the client.
+   * Build the callback ElizaOS uses to answer an inbound message. Core calls
+   * it once per chunk of the answer; with streamReplies, the chunks are
+   * streamed into one reply through progressive edits, otherwise each is
+   * sent as it comes. The first response stops the typing notification.
    */
-  private setupEventListeners() {
-    if (!this.client) {
-      return;
-    }
-
-    // Handle room messages
-    this.client.on(
-      "room.message",
-      async (roomId: string, event: MatrixEvent) => {
-        try {
-          await this.handleRoomMessage(roomId, event);
-        } catch (error) {
-          this.runtime.logger.error(`Error handling room message: ${error}`);
-        }
-      },
-    );
-
-    // Handle room member events
-    this.client.on("room.event", async (roomId: string, event: MatrixEvent) => {
+  private createResponseCallback(
+    roomId: string,
+    triggerEventId: string,
+    replyOptions: MatrixSendOptions,
+    errorMessage: string,
+    stopTyping: () => void = () => undefined,
+  ): HandlerCallback {
+    let stream: Promise<StreamingReply | null> | null = null;
+
+    return async (content): Promise<Memory[]> => {
+      stopTyping();
       try {
-        if (event.type === MATRIX_EVENT_TYPES.MEMBER) {
-          await this.handleMemberEvent(roomId, event);
-        } else if (event.type === MATRIX_EVENT_TYPES.REACTION) {
-          await this.handleReactionEvent(roomId, event);
-        } else if (event.type === MATRIX_EVENT_TYPES.MESSAGE) {
-          // Handle regular messages that come through room.event instead of room.message
-          await this.handleRoomMessage(roomId, event);
-        } else if (event.type === MATRIX_EVENT_TYPES.ENCRYPTED) {
-          await this.handleEncryptedMessage(roomId, event);
+        if (!content.text) {
+          return [];
+        }
+        stream =
+          stream ||
+          this.createStreamingReply(roomId, triggerEventId, replyOptions);
+        const reply = await stream;
+        if (reply) {
+          this.activeStreams.add(reply);
+          await reply.append(content.text);
+          return [];
         }
-      } catch (error) {
-        this.runtime.logger.error(`Error handling room event: ${error}`);
-      }
-    });
-
-    // Handle room join events
-    this.client.on("room.join", async (roomId: string, event: MatrixEvent) => {
-      try {
-        await this.handleRoomJoin(roomId, event);
-      } catch (error) {
-        this.runtime.logger.error(`Error handling room join: ${error}`);
-      }
-    });
 
-    // Handle room leave events
-    this.client.on("room.leave", async (roomId: string, event: MatrixEvent) => {
-      try {
-        await this.handleRoomLeave(roomId, event);
+        const eventIds = await this.sendTextMessage(
+          roomId,
+          content.text,
+          replyOptions,
+        );
+        this.recordResponse(roomId, triggerEventId, eventIds, replyOptions);
       } catch (error) {
-        this.runtime.logger.error(`Error handling room leave: ${error}`);
+        this.runtime.logger.error(`${errorMessage}: ${error}`);
       }
-    });
+      return [];
+    };
   }
 
   /**
-   * Download media content from Matrix MXC URL
-   * @param mxcUrl - Matrix content URL
-   * @param mimeType - MIME type of the content
-   * @param fileName - Original filename
-   * @returns Promise resolving to Media object with downloaded content
+   * Start a reply that is streamed into a room through progressive edits
+   * @returns The reply, or null where replies are not streamed
    */
-  private async downloadMediaContent(
-    mxcUrl: string,
-    mimeType: string,
-    fileName: string,
-  ): Promise<Media | null> {
-    if (!this.client) {
+  private async createStreamingReply(
+    roomId: string,
+    triggerEventId: string,
+    options: MatrixSendOptions,
+  ): Promise<StreamingReply | null> {
+    if (!(await this.shouldStreamReplies(roomId))) {
+      return null;
+    }
+
+    const relation = buildRelation(options);
+    const msgtype = await this.getTextMessageType(roomId);
+    const reply: StreamingReply = new StreamingReply(
+      {
+        send: (text) => {
+          const content = this.formatTextContent(roomId, text, msgtype);
+          if (relation) {
+            content["m.relates_to"] = relation;
+          }
+          return this.sendEvent(roomId, "m.room.message", content);
+        },
+        edit: (eventId, text) => this.sendEdit(roomId, eventId, text),
+      },
+      {
+        editIntervalMs: Math.max(
+          this.matrixSettings.streamEditIntervalMs ??
+            DEFAULT_STREAM_EDIT_INTERVAL_MS,
+          MIN_STREAM_EDIT_INTERVAL_MS,
+        ),
+        split: (text) => splitMarkdown(text, MAX_MESSAGE_LENGTH),
+        onSent: (eventIds) =>
+          this.recordResponse(roomId, triggerEventId, eventIds, options),
+        onIdle: () => this.activeStreams.delete(reply),
+        onError: (error) =>
+          this.runtime.logger.warn(
+            `Failed to update streamed reply in room ${roomId}: ${error}`,
+          ),
+      },
+    );
+    return reply;
+  }
+
+  /**
+   * Send the last edit of every streamed reply, before the send queue stops
+   * taking events. Waits at most timeoutMs.
+   */
+  private async finishStreams(timeoutMs: number) {
+    const finishing = [...this.activeStreams].map((stream) =>
+      stream
+        .finish()
+        .catch((error) =>
+          this.runtime.logger.warn(`Failed to finish streamed reply: ${error}`),
+        ),
+    );
+    this.activeStreams.clear();
+    if (finishing.length === 0) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(finishing),
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Whether replies in a room should be streamed with progressive edits.
+   * Bridged rooms are excluded: most bridges repost every edit as a new
+   * message on the other side.
+   */
+  private async shouldStreamReplies(roomId: string): Promise<boolean> {
+    if (
+      !this.matrixSettings.streamReplies ||
+      this.matrixSettings.streamDisabledRoomIds?.includes(roomId)
+    ) {
+      return false;
+    }
+
+    try {
+      return !(await this.roomStateCache.get(roomId)).isBridged;
+    } catch (error) {
+      return true;
+    }
+  }
+
+  /**
+   * Store an observe-only message in memory, where the agent sees it as
+   * context the next time it answers
+   */
+  private async observeMessage(roomId: string, memory: Memory) {
+    try {
+      await this.runtime.createMemory(memory, "messages");
+      this.runtime.logger.debug(
+        `Stored observe-only message ${memory.id} from room ${roomId}`,
+      );
+    } catch (error) {
+      this.runtime.logger.error(
+        `Failed to store observe-only message in room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Decide what happens to a message when the bot only answers mentions:
+   * respond to it, forward it as observe-only, or drop it
+   */
+  private async getMentionGate(
+    roomId: string,
+    room: MatrixRoom,
+    content: MatrixMessageContent,
+    profile: MatrixRoomProfile,
+  ): Promise<"respond" | "observe" | "drop"> {
+    if (profile.responseMode === "observe") {
+      return "observe";
+    }
+    if (profile.responseMode === "always") {
+      return "respond";
+    }
+    if (
+      profile.responseMode !== "mentions" &&
+      !this.matrixSettings.shouldRespondOnlyToMentions
+    ) {
+      return "respond";
+    }
+    if (
+      room.isDirect &&
+      !profile.responseMode &&
+      !this.matrixSettings.requireMentionsInDirectMessages
+    ) {
+      return "respond";
+    }
+    if (await this.isBotMentioned(roomId, content)) {
+      return "respond";
+    }
+    return this.matrixSettings.unmentionedMessages === "drop"
+      ? "drop"
+      : "observe";
+  }
+
+  /**
+   * Whether a message mentions the bot: an intentional mention, a pill, its
+   * name in the body, or a reply to one of its messages
+   */
+  public async isBotMentioned(
+    roomId: string,
+    content: MatrixMessageContent,
+  ): Promise<boolean> {
+    if (!this.client || !content) {
+      return false;
+    }
+
+    const userId = await this.client.getUserId();
+    const displayNames = await this.getBotDisplayNames(roomId, userId);
+    if (isMentioned(content, { userId, displayNames })) {
+      return true;
+    }
+
+    const replyToEventId = getReplyToEventId(content);
+    if (!replyToEventId) {
+      return false;
+    }
+    for (const response of this.responses.values()) {
+      if (response.eventIds.includes(replyToEventId)) {
+        return true;
+      }
+    }
+    try {
+      const repliedTo = await this.client.getEvent(roomId, replyToEventId);
+      return repliedTo?.sender === userId;
+    } catch (error) {
+      this.runtime.logger.debug(
+        `Failed to fetch replied-to event ${replyToEventId}: ${error}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Names the bot goes by in a room: its room display name, its global
+   * display name and the character name
+   */
+  private async getBotDisplayNames(
+    roomId: string,
+    userId: string,
+  ): Promise<string[]> {
+    const names = new Set<string>();
+    if (this.character?.name) {
+      names.add(this.character.name);
+    }
+
+    const member = await this.profileCache.getRoomMember(roomId, userId);
+    if (member?.displayName) {
+      names.add(member.displayName);
+    }
+    const profile = await this.profileCache.getGlobalProfile(userId);
+    if (profile.displayName) {
+      names.add(profile.displayName);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Let the sender know their message was seen: send a read receipt and
+   * show the bot as typing until it answers
+   * @returns A function that stops the typing notification
+   */
+  private acknowledgeMessage(roomId: string, eventId: string): () => void {
+    if (this.matrixSettings.sendReadReceipts !== false) {
+      void this.sendReadReceipt(roomId, eventId);
+    }
+    if (this.matrixSettings.sendTypingIndicators === false) {
+      return () => undefined;
+    }
+    return this.typingIndicator.start(roomId);
+  }
+
+  /**
+   * Mark an event as read
+   */
+  private async sendReadReceipt(roomId: string, eventId: string) {
+    try {
+      await this.client?.sendReadReceipt(roomId, eventId);
+    } catch (error) {
+      this.runtime.logger.debug(
+        `Failed to send read receipt for ${eventId} in room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Work out where replies to an inbound message should be sent: into the
+   * message's thread, or a new thread when alwaysReplyInThread is set.
+   * Group room replies quote the message when replyToMessages is set. A
+   * room profile's replyStyle takes the place of both settings.
+   */
+  private getReplyOptions(
+    event: MatrixRoomEvent,
+    content: MatrixMessageContent,
+    room: MatrixRoom,
+    profile: MatrixRoomProfile,
+  ): MatrixSendOptions {
+    const replyToMessages = profile.replyStyle
+      ? profile.replyStyle === "reply"
+      : this.matrixSettings.replyToMessages;
+    const alwaysReplyInThread = profile.replyStyle
+      ? profile.replyStyle === "thread"
+      : this.matrixSettings.alwaysReplyInThread;
+
+    const replyToEventId =
+      replyToMessages && !room.isDirect ? event.event_id : undefined;
+    let threadId = getThreadId(content);
+
+    // Threads can only be rooted at events without a relation of their own
+    if (
+      !threadId &&
+      alwaysReplyInThread &&
+      !content?.["m.relates_to"]?.rel_type
+    ) {
+      threadId = event.event_id;
+    }
+
+    if (!threadId) {
+      return { replyToEventId };
+    }
+    return { threadId, threadFallbackEventId: event.event_id, replyToEventId };
+  }
+
+  /**
+   * Replace the text of one of the bot's own messages
+   * @returns Event ID of the edit event
+   */
+  public async editMessage(
+    roomId: string,
+    eventId: string,
+    text: string,
+  ): Promise<string> {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+
+    const original = await this.client.getEvent(roomId, eventId);
+    if (original?.sender !== (await this.client.getUserId())) {
+      throw new Error(`Event ${eventId} was not sent by the bot`);
+    }
+
+    return this.sendEdit(roomId, eventId, text);
+  }
+
+  /**
+   * Send an m.replace edit without checking who sent the original event
+   */
+  private async sendEdit(
+    roomId: string,
+    eventId: string,
+    text: string,
+  ): Promise<string> {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+
+    const msgtype = await this.getTextMessageType(roomId);
+    return this.sendEvent(
+      roomId,
+      "m.room.message",
+      buildReplacement(eventId, this.formatTextContent(roomId, text, msgtype)),
+    );
+  }
+
+  /**
+   * Record a response the bot sent to a message
+   */
+  private recordResponse(
+    roomId: string,
+    triggerEventId: string,
+    eventIds: string[],
+    options: MatrixSendOptions,
+  ) {
+    if (eventIds.length === 0) {
+      return;
+    }
+    this.rememberResponse(triggerEventId, { eventIds, options });
+
+    if (this.matrixSettings.loopGuardEnabled === false) {
+      return;
+    }
+    const trip = this.loopGuard.recordResponse(roomId, eventIds);
+    if (trip) {
+      void this.onLoopDetected(roomId, trip);
+    }
+  }
+
+  /**
+   * Record an inbound message with the loop guard
+   * @returns Whether the bot may answer it
+   */
+  private checkLoopGuard(
+    roomId: string,
+    event: MatrixRoomEvent,
+    content: MatrixMessageContent,
+    senderIsBot: boolean,
+  ): boolean {
+    if (this.matrixSettings.loopGuardEnabled === false) {
+      return true;
+    }
+    const allowed = this.loopGuard.recordInbound(roomId, {
+      senderId: event.sender,
+      senderIsBot,
+      parentEventId: getParentEventId(content),
+    });
+    if (!allowed) {
+      this.runtime.logger.debug(
+        `Loop guard tripped in room ${roomId}, observing message from ${event.sender}`,
+      );
+    }
+    return allowed;
+  }
+
+  /**
+   * The loop guard tripped: tell the room, if a notice is configured, and
+   * let operators know
+   */
+  private async onLoopDetected(roomId: string, trip: LoopTrip) {
+    const cooldownMs =
+      this.matrixSettings.loopGuardCooldownMs ?? DEFAULT_LOOP_GUARD_COOLDOWN_MS;
+    this.runtime.logger.warn(
+      `Loop with ${trip.userId} detected in room ${roomId} (${trip.reason}); not answering them for ${cooldownMs}ms`,
+    );
+
+    this.runtime.emitEvent([MatrixEventTypes.LOOP_DETECTED], {
+      runtime: this.runtime,
+      source: "matrix",
+      roomId,
+      userId: trip.userId,
+      reason: trip.reason,
+      cooldownMs,
+    });
+
+    const notice = this.matrixSettings.loopGuardNotice;
+    if (notice && this.client) {
+      try {
+        await this.sendEvent(roomId, "m.room.message", {
+          msgtype: MATRIX_MESSAGE_TYPES.NOTICE,
+          body: notice,
+        });
+      } catch (error) {
+        this.runtime.logger.warn(
+          `Failed to send loop guard notice to room ${roomId}: ${error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Check an inbound message against the flood budgets. Messages over
+   * budget are dropped, or held back until the budgets allow them with the
+   * "queue" action.
+   * @returns Whether the message goes on to the agent
+   */
+  private async admitInbound(
+    roomId: string,
+    userId: string,
+    profile: MatrixRoomProfile,
+  ): Promise<boolean> {
+    const budgets: InboundBudgets = {
+      sender:
+        profile.inboundLimits?.sender ??
+        this.matrixSettings.inboundLimits?.sender ??
+        DEFAULT_INBOUND_LIMITS.sender,
+      room:
+        profile.inboundLimits?.room ??
+        this.matrixSettings.inboundLimits?.room ??
+        DEFAULT_INBOUND_LIMITS.room,
+      global:
+        this.matrixSettings.inboundLimits?.global ??
+        DEFAULT_INBOUND_LIMITS.global,
+    };
+    const scope = this.inboundLimiter.take(roomId, userId, budgets);
+    if (!scope) {
+      return true;
+    }
+
+    const action =
+      profile.floodAction ?? this.matrixSettings.floodAction ?? "drop";
+    const { isNew } = this.inboundLimiter.recordViolation(
+      roomId,
+      userId,
+      scope,
+    );
+    if (isNew) {
+      void this.onFloodDetected(roomId, userId, scope, action);
+    }
+
+    if (
+      action === "queue" &&
+      (await this.inboundLimiter.wait(roomId, userId, budgets))
+    ) {
+      return true;
+    }
+    this.runtime.logger.debug(
+      `Dropping message from ${userId} in room ${roomId}: over the ${scope} budget`,
+    );
+    return false;
+  }
+
+  /**
+   * A sender went over the inbound budgets: let operators know and, with
+   * the "notify" action, tell the sender once
+   */
+  private async onFloodDetected(
+    roomId: string,
+    userId: string,
+    scope: FloodScope,
+    action: FloodAction,
+  ) {
+    this.runtime.logger.warn(
+      `Inbound flood from ${userId} in room ${roomId}: over the ${scope} budget, ${action === "queue" ? "queueing" : "dropping"} messages`,
+    );
+
+    this.runtime.emitEvent([MatrixEventTypes.FLOOD_DETECTED], {
+      runtime: this.runtime,
+      source: "matrix",
+      roomId,
+      userId,
+      scope,
+      action,
+    });
+
+    if (action === "notify" && this.client) {
+      const notice = (
+        this.matrixSettings.floodNotice ?? DEFAULT_FLOOD_NOTICE
+      ).replace("{user}", userId);
+      try {
+        await this.sendEvent(roomId, "m.room.message", {
+          msgtype: MATRIX_MESSAGE_TYPES.NOTICE,
+          body: notice,
+        });
+      } catch (error) {
+        this.runtime.logger.warn(
+          `Failed to send flood notice to room ${roomId}: ${error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Senders that went over the inbound budgets, oldest first
+   */
+  public getFloodViolations(): FloodViolation[] {
+    return this.inboundLimiter.getViolations();
+  }
+
+  /**
+   * Remember which events the bot sent in response to a message, so edits
+   * of that message can regenerate the reply
+   */
+  private rememberResponse(triggerEventId: string, response: SentResponse) {
+    if (response.eventIds.length === 0) {
+      return;
+    }
+    this.responses.set(triggerEventId, response);
+
+    // Keep only the most recent responses
+    if (this.responses.size > MAX_TRACKED_RESPONSES) {
+      const oldest = this.responses.keys().next().value;
+      if (oldest) {
+        this.responses.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Replace a response with new text, split like any reply: the chunks edit
+   * the earlier messages in order, chunks beyond them are sent as new
+   * messages, and earlier messages left over are redacted
+   */
+  private async replaceResponse(
+    roomId: string,
+    triggerEventId: string,
+    previous: SentResponse,
+    text: string,
+  ) {
+    const chunks = splitMarkdown(text, MAX_MESSAGE_LENGTH);
+    const eventIds = previous.eventIds.slice(0, chunks.length);
+    for (const [index, eventId] of eventIds.entries()) {
+      await this.sendEdit(roomId, eventId, chunks[index]);
+    }
+    for (const chunk of chunks.slice(eventIds.length)) {
+      eventIds.push(
+        ...(await this.sendTextMessage(roomId, chunk, previous.options)),
+      );
+    }
+    for (const eventId of previous.eventIds.slice(chunks.length)) {
+      await this.sendEvent(roomId, "m.room.redaction", { redacts: eventId });
+    }
+    this.rememberResponse(triggerEventId, {
+      eventIds,
+      options: previous.options,
+    });
+  }
+
+  /**
+   * Map the event a message replies to (or, failing that, its thread root)
+   * to the ElizaOS memory ID used for that event
+   */
+  private getInReplyTo(content: MatrixMessageContent): UUID | undefined {
+    const targetEventId = getReplyToEventId(content) || getThreadId(content);
+    return targetEventId
+      ? createUniqueUuid(this.runtime, targetEventId)
+      : undefined;
+  }
+
+  /**
+   * Get or create a DM room with a user
+   */
+  private async getOrCreateDMRoom(userId: string): Promise<string> {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+
+    if (!(await this.isDirectMessageAllowed(userId))) {
+      throw new Error(
+        `Direct messages with ${userId} are not allowed by the DM policy`,
+      );
+    }
+
+    try {
+      await this.loadDirectRooms();
+      const joinedRooms = new Set(await this.client.getJoinedRooms());
+
+      // Rooms m.direct lists for the user; the user may not have joined yet
+      const listed = this.directRooms
+        .getRooms(userId)
+        .find((roomId) => joinedRooms.has(roomId));
+      if (listed) {
+        return listed;
+      }
+
+      // Without an m.direct entry, look for a two-person room with the user.
+      // Only a room whose membership is marked is_direct counts as a DM and
+      // is recorded in m.direct; a plain two-member room is reused as it is.
+      const botUserId = await this.client.getUserId();
+      let twoMemberRoomId: string | undefined;
+      for (const roomId of joinedRooms) {
+        if (this.directRooms.has(roomId)) {
+          continue;
+        }
+        const state = await this.roomStateCache.get(roomId);
+        if (state.members.size !== 2 || !state.members.has(userId)) {
+          continue;
+        }
+        if (
+          state.directMembers.has(userId) ||
+          state.directMembers.has(botUserId)
+        ) {
+          await this.recordDirectRoom(userId, roomId);
+          return roomId;
+        }
+        twoMemberRoomId ??= roomId;
+      }
+      if (twoMemberRoomId) {
+        return twoMemberRoomId;
+      }
+
+      // Create new DM room
+      const roomId = await this.client.createRoom({
+        invite: [userId],
+        is_direct: true,
+        preset: "trusted_private_chat",
+      });
+      await this.recordDirectRoom(userId, roomId);
+
+      return roomId;
+    } catch (error) {
+      throw new Error(`Failed to get or create DM room: ${error}`);
+    }
+  }
+
+  /**
+   * Whether a user is a bot, by the configured patterns and lists and the
+   * m.notice messages seen from them
+   */
+  public isBot(userId: string): boolean {
+    return this.botClassifier.isBot(userId);
+  }
+
+  /**
+   * The profile of a room from settings.matrix.rooms, matched by room ID
+   * first, then by the room's canonical and alternative aliases
+   * @returns An empty profile when none is configured for the room
+   */
+  public async getRoomProfile(roomId: string): Promise<MatrixRoomProfile> {
+    const profile = this.roomProfiles[roomId];
+    if (profile) {
+      return profile;
+    }
+    if (!Object.keys(this.roomProfiles).some((key) => key.startsWith("#"))) {
+      return {};
+    }
+
+    try {
+      const state = await this.roomStateCache.get(roomId);
+      const alias = [state.canonicalAlias, ...state.altAliases].find(
+        (alias) => alias && this.roomProfiles[alias],
+      );
+      return alias ? this.roomProfiles[alias] : {};
+    } catch (error) {
+      this.runtime.logger.debug(
+        `Failed to read aliases of room ${roomId}: ${error}`,
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Count a response against the room profile's rate limit
+   * @returns False when the limit is reached and the message should only be
+   * observed
+   */
+  private takeResponseSlot(
+    roomId: string,
+    profile: MatrixRoomProfile,
+  ): boolean {
+    if (!profile.rateLimit) {
+      return true;
+    }
+
+    const now = Date.now();
+    const { maxResponses, windowMs } = profile.rateLimit;
+    const times = (this.roomResponseTimes.get(roomId) || []).filter(
+      (time) => now - time < windowMs,
+    );
+    if (times.length >= maxResponses) {
+      this.roomResponseTimes.set(roomId, times);
+      this.runtime.logger.debug(
+        `Response rate limit reached in room ${roomId}; observing only`,
+      );
+      return false;
+    }
+    times.push(now);
+    this.roomResponseTimes.set(roomId, times);
+    return true;
+  }
+
+  /**
+   * How messages from bots are handled in a room; shouldIgnoreBotMessages
+   * maps to "ignore"
+   */
+  private getBotMessagePolicy(
+    roomId: string,
+    profile: MatrixRoomProfile,
+  ): BotMessagePolicy {
+    return (
+      profile.botMessages ??
+      this.matrixSettings.botMessagesByRoom?.[roomId] ??
+      this.matrixSettings.botMessages ??
+      (this.matrixSettings.shouldIgnoreBotMessages ? "ignore" : "respond")
+    );
+  }
+
+  /**
+   * The effective DM policy; shouldIgnoreDirectMessages maps to "ignore"
+   */
+  private getDirectMessagePolicy(): DirectMessagePolicy {
+    if (this.matrixSettings.dmPolicy) {
+      return this.matrixSettings.dmPolicy;
+    }
+    return this.matrixSettings.shouldIgnoreDirectMessages ? "ignore" : "open";
+  }
+
+  /**
+   * Whether the DM policy allows direct messages with a user
+   * @param dmRoomId The DM room itself, which does not count as shared
+   */
+  public async isDirectMessageAllowed(
+    userId: string,
+    dmRoomId?: string,
+  ): Promise<boolean> {
+    switch (this.getDirectMessagePolicy()) {
+      case "ignore":
+        return false;
+      case "allowlist":
+        return isAllowlisted(userId, this.matrixSettings.dmAllowlist || []);
+      case "require-shared-room":
+        return this.sharesGroupRoom(userId, dmRoomId);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Whether the bot and a user are both in a group room
+   */
+  private async sharesGroupRoom(
+    userId: string,
+    excludeRoomId?: string,
+  ): Promise<boolean> {
+    if (!this.client) {
+      return false;
+    }
+
+    try {
+      const rooms = await this.client.getJoinedRooms();
+      for (const roomId of rooms) {
+        if (roomId === excludeRoomId) {
+          continue;
+        }
+        const { members } = await this.roomStateCache.get(roomId);
+        if (members.size > 2 && members.has(userId)) {
+          return true;
+        }
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to check shared rooms with ${userId}: ${error}`,
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Turn away a DM the policy does not allow: send the rejection notice, if
+   * one is configured, and leave the room unless told to stay. Only rooms
+   * that m.direct or the invite mark as DMs are left; a room that merely
+   * has two members may be a small group room.
+   */
+  private async rejectDirectMessage(roomId: string, userId: string) {
+    this.runtime.logger.info(
+      `Rejecting direct message from ${userId} in room ${roomId} (DM policy: ${this.getDirectMessagePolicy()})`,
+    );
+    if (!this.client) {
+      return;
+    }
+
+    try {
+      const notice = this.matrixSettings.dmRejectionNotice;
+      if (notice && !this.rejectedDirectRooms.has(roomId)) {
+        this.rejectedDirectRooms.add(roomId);
+        await this.sendEvent(roomId, "m.room.message", {
+          msgtype: MATRIX_MESSAGE_TYPES.NOTICE,
+          body: notice,
+        });
+      }
+
+      if (this.matrixSettings.leaveRejectedDirectMessages !== false) {
+        if (!(await this.isMarkedAsDirect(roomId))) {
+          this.runtime.logger.info(
+            `Staying in room ${roomId}: neither m.direct nor its invite mark it as a DM`,
+          );
+          return;
+        }
+        await this.client.leaveRoom(roomId);
+        this.rejectedDirectRooms.delete(roomId);
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to reject direct message in room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Inbound pipeline for timeline events from every listener. Each event is
+   * handled once, even when several listeners deliver it or it arrives both
+   * encrypted and decrypted.
+   */
+  private async handleInboundEvent(roomId: string, event: MatrixRoomEvent) {
+    await this.inboundStateLoaded;
+    await this.allowedRoomsLoaded;
+    await this.fillCatchUpGap(roomId, event);
+    if (event.event_id) {
+      if (!this.seenEvents.add(event.event_id)) {
+        this.runtime.logger.debug(
+          `Skipping already processed event ${event.event_id} in room ${roomId}`,
+        );
+        return;
+      }
+      this.scheduleInboundStateSave();
+    }
+
+    const startupHandling = this.getStartupHandling(roomId, event);
+    if (startupHandling === "skip") {
+      this.runtime.logger.debug(
+        `Skipping event ${event.event_id} in room ${roomId} from before startup`,
+      );
+      return;
+    }
+    const replayed = startupHandling === "replay";
+
+    if (event.state_key !== undefined) {
+      this.roomStateCache.applyStateEvent(roomId, event);
+    }
+
+    switch (event.type) {
+      case MATRIX_EVENT_TYPES.MESSAGE:
+        await this.handleRoomMessage(roomId, event, replayed);
+        this.recordLastProcessed(roomId, event);
+        break;
+      case MATRIX_EVENT_TYPES.ENCRYPTED:
+        await this.handleEncryptedMessage(roomId, event, replayed);
+        this.recordLastProcessed(roomId, event);
+        break;
+      case MATRIX_EVENT_TYPES.MEMBER:
+        await this.handleMemberEvent(roomId, event);
+        break;
+      case MATRIX_EVENT_TYPES.REACTION:
+        await this.handleReactionEvent(roomId, event);
+        break;
+      case MATRIX_EVENT_TYPES.REDACTION:
+        await this.handleRedactionEvent(roomId, event);
+        break;
+      default:
+        await this.handleStateEvent(roomId, event);
+    }
+  }
+
+  /**
+   * Decide what happens to an event under the startup policy. Events sent
+   * after the service started are always processed; older messages and
+   * reactions come from the initial sync.
+   */
+  private getStartupHandling(
+    roomId: string,
+    event: MatrixRoomEvent,
+  ): "process" | "replay" | "skip" {
+    const timestamp = event.origin_server_ts;
+    if (
+      !timestamp ||
+      timestamp >= this.startedAt ||
+      !STARTUP_POLICY_EVENT_TYPES.includes(event.type)
+    ) {
+      return "process";
+    }
+
+    switch (this.matrixSettings.startupPolicy ?? "ignore-before-start") {
+      case "replay-all":
+        return "process";
+      case "catch-up": {
+        // Only messages missed since the last one processed before the restart
+        const last = this.lastProcessedEvents.get(roomId);
+        return event.type !== MATRIX_EVENT_TYPES.REACTION &&
+          last &&
+          timestamp > last.timestamp
+          ? "replay"
+          : "skip";
+      }
+      default:
+        return "skip";
+    }
+  }
+
+  /**
+   * With catch-up, check where the initial sync timeline of a room starts.
+   * A limited timeline starts after the last event processed before the
+   * restart; the messages in between are fetched with the backfill path and
+   * stored as observe-only memories, before the synced ones are replayed.
+   */
+  private async fillCatchUpGap(roomId: string, event: MatrixRoomEvent) {
+    const timestamp = event.origin_server_ts;
+    const last = this.lastProcessedEvents.get(roomId);
+    if (
+      this.matrixSettings.startupPolicy !== "catch-up" ||
+      !last ||
+      !timestamp ||
+      timestamp >= this.startedAt ||
+      !STARTUP_POLICY_EVENT_TYPES.includes(event.type) ||
+      this.catchUpCheckedRooms.has(roomId)
+    ) {
+      return;
+    }
+    // The timeline is oldest first, so its first event tells where it starts
+    this.catchUpCheckedRooms.add(roomId);
+    if (event.event_id === last.eventId || timestamp <= last.timestamp) {
+      return;
+    }
+
+    this.runtime.logger.info(
+      `Initial sync of room ${roomId} starts after the last processed event; fetching the messages in between`,
+    );
+    try {
+      await this.backfillRoom(roomId, {
+        since: last.timestamp,
+        until: timestamp,
+      });
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to fetch missed messages in room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Remember the newest message processed in a room
+   */
+  private recordLastProcessed(roomId: string, event: MatrixRoomEvent) {
+    const timestamp = event.origin_server_ts;
+    const last = this.lastProcessedEvents.get(roomId);
+    if (
+      !event.event_id ||
+      !timestamp ||
+      (last && last.timestamp >= timestamp)
+    ) {
+      return;
+    }
+    this.lastProcessedEvents.set(roomId, {
+      eventId: event.event_id,
+      timestamp,
+    });
+    this.scheduleInboundStateSave();
+  }
+
+  /**
+   * Load the processed event IDs and last processed events saved before a
+   * restart
+   */
+  private async loadInboundState(): Promise<void> {
+    try {
+      const eventIds = await this.runtime.getCache<string[]>(
+        SEEN_EVENTS_CACHE_KEY,
+      );
+      if (Array.isArray(eventIds)) {
+        this.seenEvents.load(eventIds);
+      }
+
+      const lastProcessed = await this.runtime.getCache<
+        Record<string, LastProcessedEvent>
+      >(LAST_PROCESSED_CACHE_KEY);
+      for (const [roomId, last] of Object.entries(lastProcessed || {})) {
+        this.lastProcessedEvents.set(roomId, last);
+      }
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to load inbound event state: ${error}`);
+    }
+  }
+
+  /**
+   * Write the inbound state to the runtime cache soon, batching events
+   * that arrive close together
+   */
+  private scheduleInboundStateSave() {
+    if (this.inboundStateSaveTimer) {
+      return;
+    }
+    this.inboundStateSaveTimer = setTimeout(() => {
+      this.inboundStateSaveTimer = null;
+      void this.saveInboundState();
+    }, INBOUND_STATE_SAVE_DELAY_MS);
+  }
+
+  private async saveInboundState(): Promise<void> {
+    try {
+      await this.runtime.setCache(
+        SEEN_EVENTS_CACHE_KEY,
+        this.seenEvents.toArray(),
+      );
+      await this.runtime.setCache(
+        LAST_PROCESSED_CACHE_KEY,
+        Object.fromEntries(this.lastProcessedEvents),
+      );
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to save inbound event state: ${error}`);
+    }
+  }
+
+  /**
+   * Collect a replayed message for the room's catch-up summary, and send
+   * the summary once replayed messages stop arriving
+   */
+  private recordCatchUpMessage(roomId: string, sender: string, text: string) {
+    if (!this.matrixSettings.catchUpSummary) {
+      return;
+    }
+
+    const messages = this.catchUpMessages.get(roomId) || [];
+    messages.push(`${sender}: ${text}`);
+    this.catchUpMessages.set(roomId, messages.slice(-MAX_CATCH_UP_MESSAGES));
+
+    clearTimeout(this.catchUpTimers.get(roomId));
+    this.catchUpTimers.set(
+      roomId,
+      setTimeout(() => {
+        this.catchUpTimers.delete(roomId);
+        void this.sendCatchUpSummary(roomId);
+      }, CATCH_UP_SUMMARY_DELAY_MS),
+    );
+  }
+
+  /**
+   * Summarise the messages replayed in a room and post the summary
+   */
+  private async sendCatchUpSummary(roomId: string) {
+    const messages = this.catchUpMessages.get(roomId);
+    this.catchUpMessages.delete(roomId);
+    if (!messages?.length) {
+      return;
+    }
+
+    try {
+      const summary = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt:
+          `You are ${this.character.name}. While you were offline, these messages were posted in a Matrix room:\n\n` +
+          `${messages.join("\n")}\n\n` +
+          "Write a short message for the room that summarises what you missed and mentions anything that still needs your answer.",
+      });
+      if (summary) {
+        await this.sendTextMessage(roomId, summary);
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to send catch-up summary to room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Set up event listeners for the client.
+   */
+  private setupEventListeners() {
+    if (!this.client) {
+      return;
+    }
+
+    // Messages arrive through both listeners; the pipeline handles each once
+    this.client.on(
+      "room.message",
+      async (roomId: string, event: MatrixRoomEvent) => {
+        try {
+          await this.handleInboundEvent(roomId, event);
+        } catch (error) {
+          this.runtime.logger.error(`Error handling room message: ${error}`);
+        }
+      },
+    );
+
+    this.client.on(
+      "room.event",
+      async (roomId: string, event: MatrixRoomEvent) => {
+        try {
+          await this.handleInboundEvent(roomId, event);
+        } catch (error) {
+          this.runtime.logger.error(`Error handling room event: ${error}`);
+        }
+      },
+    );
+
+    // Keep the DM index in step with m.direct changes from any client
+    this.client.on(
+      "account_data",
+      (event: { type?: string; content?: Record<string, unknown> }) => {
+        if (event?.type === "m.direct") {
+          this.directRooms.load(event.content);
+        }
+      },
+    );
+
+    // Invites go through the invite policy
+    this.client.on(
+      "room.invite",
+      async (roomId: string, event: MatrixRoomEvent) => {
+        try {
+          await this.handleRoomInvite(roomId, event);
+        } catch (error) {
+          this.runtime.logger.error(`Error handling room invite: ${error}`);
+        }
+      },
+    );
+
+    // Handle room join events
+    this.client.on(
+      "room.join",
+      async (roomId: string, event: MatrixRoomEvent) => {
+        try {
+          await this.handleRoomJoin(roomId, event);
+        } catch (error) {
+          this.runtime.logger.error(`Error handling room join: ${error}`);
+        }
+      },
+    );
+
+    // Handle room leave events
+    this.client.on(
+      "room.leave",
+      async (roomId: string, event: MatrixRoomEvent) => {
+        try {
+          await this.handleRoomLeave(roomId, event);
+        } catch (error) {
+          this.runtime.logger.error(`Error handling room leave: ${error}`);
+        }
+      },
+    );
+  }
+
+  /**
+   * Whether a room profile allows downloading an image of the given size
+   */
+  private isMediaDownloadAllowed(
+    profile: MatrixRoomProfile,
+    size?: number,
+  ): boolean {
+    if (profile.mediaDownloads === false) {
+      return false;
+    }
+    return (
+      profile.maxMediaBytes === undefined ||
+      typeof size !== "number" ||
+      size <= profile.maxMediaBytes
+    );
+  }
+
+  /**
+   * Download media content from Matrix MXC URL
+   * @param mxcUrl - Matrix content URL
+   * @param mimeType - MIME type of the content
+   * @param fileName - Original filename
+   * @param maxBytes - Largest content accepted, from the room profile
+   * @returns Promise resolving to Media object with downloaded content
+   */
+  private async downloadMediaContent(
+    mxcUrl: string,
+    mimeType: string,
+    fileName: string,
+    maxBytes?: number,
+  ): Promise<Media | null> {
+    if (!this.client) {
       this.runtime.logger.error("Matrix client not available for media download");
       return null;
     }
@@ -612,6 +2228,14 @@ export class MatrixService extends Service implements IMatrixService {
         return null;
       }
 
+      // The size in the event info is optional, so check what arrived too
+      if (maxBytes !== undefined && contentBuffer.length > maxBytes) {
+        this.runtime.logger.warn(
+          `Discarding ${contentBuffer.length} bytes from ${mxcUrl}: above the room's media limit of ${maxBytes} bytes`,
+        );
+        return null;
+      }
+
       this.runtime.logger.debug(`Successfully downloaded ${contentBuffer.length} bytes from ${httpUrl}`);
 
       // Convert Buffer to base64 data URL for VLM consumption
@@ -727,7 +2351,11 @@ export class MatrixService extends Service implements IMatrixService {
   /**
    * Handle room messages
    */
-  private async handleRoomMessage(roomId: string, event: MatrixEvent) {
+  private async handleRoomMessage(
+    roomId: string,
+    event: MatrixRoomEvent,
+    replayed = false,
+  ) {
     try {
       // Skip if we're sending the message
       if (event.sender === (await this.client?.getUserId())) {
@@ -739,16 +2367,33 @@ export class MatrixService extends Service implements IMatrixService {
         return;
       }
 
-      // Skip bot messages if configured
-      if (
-        this.matrixSettings.shouldIgnoreBotMessages &&
-        event.sender.includes("bot")
-      ) {
+      const messageContent = event.content as MessageEventContent;
+      if (!messageContent) {
         return;
       }
 
-      const messageContent = event.content as MessageEventContent;
-      if (!messageContent) {
+      const profile = await this.getRoomProfile(roomId);
+
+      // Bot senders are ignored, observed or answered depending on the room
+      const senderIsBot = this.botClassifier.classifyMessage(
+        event.sender,
+        messageContent.msgtype,
+      );
+      const botPolicy = senderIsBot
+        ? this.getBotMessagePolicy(roomId, profile)
+        : "respond";
+      if (botPolicy === "ignore") {
+        return;
+      }
+
+      // Edits update the stored memory instead of arriving as new messages
+      if (getReplacedEventId(messageContent)) {
+        await this.handleMessageEdit(roomId, event, messageContent, {
+          profile,
+          senderIsBot,
+          botPolicy,
+          replayed,
+        });
         return;
       }
 
@@ -773,21 +2418,46 @@ export class MatrixService extends Service implements IMatrixService {
       }
 
       const room = await this.getRoomInfo(roomId);
+      if (
+        room.isDirect &&
+        !(await this.isDirectMessageAllowed(event.sender, roomId))
+      ) {
+        await this.rejectDirectMessage(roomId, event.sender);
+        return;
+      }
+
+      const mentionGate = await this.getMentionGate(
+        roomId,
+        room,
+        messageContent,
+        profile,
+      );
+      if (mentionGate === "drop") {
+        this.runtime.logger.debug(
+          `Ignoring message ${event.event_id} in room ${roomId}: bot not mentioned`,
+        );
+        return;
+      }
+      if (
+        !replayed &&
+        !(await this.admitInbound(roomId, event.sender, profile))
+      ) {
+        return;
+      }
+      // Messages replayed on catch-up are only remembered; the rate limit
+      // only counts messages that would be answered
+      const observeOnly =
+        replayed ||
+        mentionGate === "observe" ||
+        botPolicy === "observe" ||
+        !this.checkLoopGuard(roomId, event, messageContent, senderIsBot) ||
+        !this.takeResponseSlot(roomId, profile);
+
       const roomUUID = createUniqueUuid(this.runtime, roomId);
       const entityId = createUniqueUuid(this.runtime, event.sender);
       const messageUUID = createUniqueUuid(this.runtime, event.event_id);
 
-      // Get user display name
-      let displayName: string;
-      try {
-        const senderProfile = await this.client?.getUserProfile(event.sender);
-        displayName = senderProfile?.displayname || event.sender;
-      } catch (error) {
-        this.runtime.logger.warn(
-          `Failed to get profile for ${event.sender}: ${error}`,
-        );
-        displayName = event.sender;
-      }
+      const displayName = await this.getDisplayName(roomId, event.sender);
 
       await this.runtime.ensureConnection({
         entityId,
@@ -801,15 +2471,18 @@ export class MatrixService extends Service implements IMatrixService {
         type: room.isDirect ? ChannelType.DM : ChannelType.GROUP,
       });
 
+      // Prefer the HTML body, converted to Markdown, without reply fallbacks
+      const inboundText = normalizeInboundText(messageContent);
+
       // Format message text based on type and download media content if applicable
-      let messageText = messageContent.body;
+      let messageText = inboundText.text;
       let isMediaMessage = false;
       let attachments: Media[] = [];
 
       if (messageContent.msgtype === MATRIX_MESSAGE_TYPES.EMOTE) {
-        messageText = `*${event.sender} ${messageContent.body}*`;
+        messageText = `*${event.sender} ${inboundText.text}*`;
       } else if (messageContent.msgtype === MATRIX_MESSAGE_TYPES.NOTICE) {
-        messageText = `[Notice] ${messageContent.body}`;
+        messageText = `[Notice] ${inboundText.text}`;
       } else if (
         [
           MATRIX_MESSAGE_TYPES.IMAGE,
@@ -836,7 +2509,9 @@ export class MatrixService extends Service implements IMatrixService {
           messageText = `📷 **IMAGE ATTACHED**: ${fileName}${dimensionInfo}${sizeInfo}\n\n${messageContent.body || "User shared an image"}`;
 
           // Attempt to download the image content
-          if (messageContent.info?.mimetype) {
+          if (!this.isMediaDownloadAllowed(profile, imageInfo?.size)) {
+            messageText += `\n\n⚠️ Image not downloaded - media downloads are limited in this room.`;
+          } else if (messageContent.info?.mimetype) {
             try {
               this.runtime.logger.info(
                 `Downloading image for VLM processing: ${fileName} (${messageContent.info.mimetype})`,
@@ -846,6 +2521,7 @@ export class MatrixService extends Service implements IMatrixService {
                 messageContent.url,
                 messageContent.info.mimetype,
                 fileName,
+                profile.maxMediaBytes,
               );
 
               if (mediaAttachment) {
@@ -890,6 +2566,7 @@ export class MatrixService extends Service implements IMatrixService {
           source: "matrix",
           channelType: room.isDirect ? ChannelType.DM : ChannelType.GROUP,
           attachments: attachments.length > 0 ? attachments : undefined,
+          inReplyTo: this.getInReplyTo(messageContent),
           metadata: {
             messageType: messageContent.msgtype,
             originalEvent: event.event_id,
@@ -898,41 +2575,57 @@ export class MatrixService extends Service implements IMatrixService {
             mediaUrl: messageContent.url,
             mimeType: messageContent.info?.mimetype,
             fileSize: messageContent.info?.size,
+            formattedBody: inboundText.html,
+            threadId: getThreadId(messageContent),
+            replyToEventId: getReplyToEventId(messageContent),
+            observeOnly,
+            senderIsBot,
           },
         },
         roomId: roomUUID,
         createdAt: event.origin_server_ts || Date.now(),
       };
 
-      const callback: HandlerCallback = async (content): Promise<Memory[]> => {
-        try {
-          if (content.text) {
-            // Split long messages
-            const chunks = this.splitMessage(content.text, 4096);
-            for (const chunk of chunks) {
-              await this.client?.sendMessage(roomId, {
-                msgtype: MATRIX_MESSAGE_TYPES.TEXT,
-                body: chunk,
-              });
-            }
-          }
-        } catch (error) {
-          this.runtime.logger.error(`Error sending response message: ${error}`);
-        }
-        return [];
-      };
+      if (replayed) {
+        this.recordCatchUpMessage(roomId, displayName, messageText);
+      }
 
-      this.runtime.emitEvent(
-        [MatrixEventTypes.MESSAGE_RECEIVED, "MESSAGE_RECEIVED"],
-        {
-          runtime: this.runtime,
-          message: memory,
-          callback,
-          originalEvent: event,
-          room,
-        },
+      // Observed messages are stored without reaching the message handlers,
+      // so they build memory without costing a model call
+      if (observeOnly) {
+        await this.observeMessage(roomId, memory);
+        return;
+      }
+
+      const stopTyping = this.acknowledgeMessage(roomId, event.event_id);
+      const callback = this.createResponseCallback(
+        roomId,
+        event.event_id,
+        this.getReplyOptions(event, messageContent, room, profile),
+        "Error sending response message",
+        stopTyping,
       );
 
+      // Typing stops once the handlers are done, whether or not they answered
+      Promise.resolve(
+        this.runtime.emitEvent(
+          [MatrixEventTypes.MESSAGE_RECEIVED, "MESSAGE_RECEIVED"],
+          {
+            runtime: this.runtime,
+            message: memory,
+            callback,
+            originalEvent: event,
+            room,
+          },
+        ),
+      )
+        .catch((error) =>
+          this.runtime.logger.error(
+            `Error handling message ${event.event_id} in room ${roomId}: ${error}`,
+          ),
+        )
+        .finally(stopTyping);
+
       this.runtime.logger.debug(
         `Forwarded ${messageContent.msgtype} message from ${event.sender} in room ${roomId} to ElizaOS`,
       );
@@ -946,7 +2639,11 @@ export class MatrixService extends Service implements IMatrixService {
   /**
    * Handle encrypted messages
    */
-  private async handleEncryptedMessage(roomId: string, event: MatrixEvent) {
+  private async handleEncryptedMessage(
+    roomId: string,
+    event: MatrixRoomEvent,
+    replayed = false,
+  ) {
     try {
       // Skip if we're sending the message
       if (event.sender === (await this.client?.getUserId())) {
@@ -964,6 +2661,7 @@ export class MatrixService extends Service implements IMatrixService {
 
       // Try to decrypt the message using Matrix SDK
       let decryptedContent: any = null;
+      let inboundText: InboundText | null = null;
       let messageText = "[Encrypted message - content not available]";
       let isDecrypted = false;
 
@@ -983,7 +2681,8 @@ export class MatrixService extends Service implements IMatrixService {
         ) {
           // Message has been decrypted successfully
           decryptedContent = event.content;
-          messageText = decryptedContent.body;
+          inboundText = normalizeInboundText(decryptedContent);
+          messageText = inboundText.text;
           isDecrypted = true;
           this.runtime.logger.debug(
             `Successfully decrypted message from ${event.sender} in room ${roomId}: ${messageText.substring(0, 100)}...`,
@@ -1007,19 +2706,71 @@ export class MatrixService extends Service implements IMatrixService {
           `Failed to decrypt message from ${event.sender} in room ${roomId}: ${decryptError}`,
         );
       }
+
+      const profile = await this.getRoomProfile(roomId);
+
+      // Bot senders are ignored, observed or answered depending on the room
+      const senderIsBot = this.botClassifier.classifyMessage(
+        event.sender,
+        decryptedContent?.msgtype,
+      );
+      const botPolicy = senderIsBot
+        ? this.getBotMessagePolicy(roomId, profile)
+        : "respond";
+      if (botPolicy === "ignore") {
+        return;
+      }
+
+      if (isDecrypted && getReplacedEventId(decryptedContent)) {
+        await this.handleMessageEdit(roomId, event, decryptedContent, {
+          profile,
+          senderIsBot,
+          botPolicy,
+          replayed,
+        });
+        return;
+      }
       const room = await this.getRoomInfo(roomId);
+      if (
+        room.isDirect &&
+        !(await this.isDirectMessageAllowed(event.sender, roomId))
+      ) {
+        await this.rejectDirectMessage(roomId, event.sender);
+        return;
+      }
+
+      const mentionGate = await this.getMentionGate(
+        roomId,
+        room,
+        decryptedContent,
+        profile,
+      );
+      if (mentionGate === "drop") {
+        this.runtime.logger.debug(
+          `Ignoring encrypted message ${event.event_id} in room ${roomId}: bot not mentioned`,
+        );
+        return;
+      }
+      if (
+        !replayed &&
+        !(await this.admitInbound(roomId, event.sender, profile))
+      ) {
+        return;
+      }
+      // Messages replayed on catch-up are only remembered; the rate limit
+      // only counts messages that would be answered
+      const observeOnly =
+        replayed ||
+        mentionGate === "observe" ||
+        botPolicy === "observe" ||
+        !this.checkLoopGuard(roomId, event, decryptedContent, senderIsBot) ||
+        !this.takeResponseSlot(roomId, profile);
+
       const roomUUID = createUniqueUuid(this.runtime, roomId);
       const entityId = createUniqueUuid(this.runtime, event.sender);
       const messageUUID = createUniqueUuid(this.runtime, event.event_id);
 
-      // Get user display name
-      let displayName: string;
-      try {
-        const senderProfile = await this.client?.getUserProfile(event.sender);
-        displayName = senderProfile?.displayname || event.sender;
-      } catch (error) {
-        displayName = event.sender;
-      }
+      const displayName = await this.getDisplayName(roomId, event.sender);
 
       await this.runtime.ensureConnection({
         entityId,
@@ -1039,9 +2790,9 @@ export class MatrixService extends Service implements IMatrixService {
 
       if (isDecrypted && decryptedContent) {
         if (decryptedContent.msgtype === MATRIX_MESSAGE_TYPES.EMOTE) {
-          messageText = `*${event.sender} ${decryptedContent.body}*`;
+          messageText = `*${event.sender} ${inboundText?.text}*`;
         } else if (decryptedContent.msgtype === MATRIX_MESSAGE_TYPES.NOTICE) {
-          messageText = `[Notice] ${decryptedContent.body}`;
+          messageText = `[Notice] ${inboundText?.text}`;
         } else if (
           [
             MATRIX_MESSAGE_TYPES.IMAGE,
@@ -1068,7 +2819,9 @@ export class MatrixService extends Service implements IMatrixService {
             messageText = `🔐📷 **ENCRYPTED IMAGE ATTACHED**: ${fileName}${dimensionInfo}${sizeInfo}\n\n${decryptedContent.body || "User shared an encrypted image"}`;
 
             // Attempt to download the encrypted image content
-            if (decryptedContent.info?.mimetype) {
+            if (!this.isMediaDownloadAllowed(profile, imageInfo?.size)) {
+              messageText += `\n\n⚠️ Encrypted image not downloaded - media downloads are limited in this room.`;
+            } else if (decryptedContent.info?.mimetype) {
               try {
                 this.runtime.logger.info(
                   `Downloading encrypted image for VLM processing: ${fileName} (${decryptedContent.info.mimetype})`,
@@ -1078,6 +2831,7 @@ export class MatrixService extends Service implements IMatrixService {
                   decryptedContent.url,
                   decryptedContent.info.mimetype,
                   fileName,
+                  profile.maxMediaBytes,
                 );
 
                 if (mediaAttachment) {
@@ -1123,6 +2877,7 @@ export class MatrixService extends Service implements IMatrixService {
           source: "matrix",
           channelType: room.isDirect ? ChannelType.DM : ChannelType.GROUP,
           attachments: attachments.length > 0 ? attachments : undefined,
+          inReplyTo: this.getInReplyTo(decryptedContent),
           metadata: {
             messageType: isDecrypted
               ? decryptedContent?.msgtype || "m.text"
@@ -1137,6 +2892,11 @@ export class MatrixService extends Service implements IMatrixService {
               ? decryptedContent?.info?.mimetype
               : undefined,
             fileSize: isDecrypted ? decryptedContent?.info?.size : undefined,
+            formattedBody: inboundText?.html,
+            threadId: getThreadId(decryptedContent),
+            replyToEventId: getReplyToEventId(decryptedContent),
+            observeOnly,
+            senderIsBot,
           },
         },
         roomId: roomUUID,
@@ -1144,37 +2904,46 @@ export class MatrixService extends Service implements IMatrixService {
       };
 
       // Provide callback for responses - encrypted messages should be able to reply too
-      const callback: HandlerCallback = async (content): Promise<Memory[]> => {
-        try {
-          if (content.text) {
-            // Split long messages
-            const chunks = this.splitMessage(content.text, 4096);
-            for (const chunk of chunks) {
-              await this.client?.sendMessage(roomId, {
-                msgtype: MATRIX_MESSAGE_TYPES.TEXT,
-                body: chunk,
-              });
-            }
-          }
-        } catch (error) {
-          this.runtime.logger.error(
-            `Error sending response to encrypted message: ${error}`,
-          );
-        }
-        return [];
-      };
+      if (replayed) {
+        this.recordCatchUpMessage(roomId, displayName, messageText);
+      }
 
-      this.runtime.emitEvent(
-        [MatrixEventTypes.MESSAGE_RECEIVED, "MESSAGE_RECEIVED"],
-        {
-          runtime: this.runtime,
-          message: memory,
-          callback,
-          originalEvent: event,
-          room,
-        },
+      // Observed messages are stored without reaching the message handlers,
+      // so they build memory without costing a model call
+      if (observeOnly) {
+        await this.observeMessage(roomId, memory);
+        return;
+      }
+
+      const stopTyping = this.acknowledgeMessage(roomId, event.event_id);
+      const callback = this.createResponseCallback(
+        roomId,
+        event.event_id,
+        this.getReplyOptions(event, decryptedContent, room, profile),
+        "Error sending response to encrypted message",
+        stopTyping,
       );
 
+      // Typing stops once the handlers are done, whether or not they answered
+      Promise.resolve(
+        this.runtime.emitEvent(
+          [MatrixEventTypes.MESSAGE_RECEIVED, "MESSAGE_RECEIVED"],
+          {
+            runtime: this.runtime,
+            message: memory,
+            callback,
+            originalEvent: event,
+            room,
+          },
+        ),
+      )
+        .catch((error) =>
+          this.runtime.logger.error(
+            `Error handling message ${event.event_id} in room ${roomId}: ${error}`,
+          ),
+        )
+        .finally(stopTyping);
+
       this.runtime.logger.debug(
         `Forwarded ${isDecrypted ? "decrypted" : "encrypted"} message from ${event.sender} in room ${roomId} to ElizaOS`,
       );
@@ -1186,49 +2955,283 @@ export class MatrixService extends Service implements IMatrixService {
   }
 
   /**
-   * Handle member events (join/leave)
+   * Handle m.replace edits: update the stored memory of the edited message
+   * and, when regenerateOnEdit is set, regenerate the bot's reply to it.
+   * Regenerating is answering again, so it goes through the same gates as
+   * a new message.
    */
-  private async handleMemberEvent(roomId: string, event: MatrixEvent) {
-    const content = event.content as any;
-    const membership = content.membership;
+  private async handleMessageEdit(
+    roomId: string,
+    event: MatrixRoomEvent,
+    content: MatrixMessageContent,
+    gate: EditGate,
+  ) {
+    const originalEventId = getReplacedEventId(content) as string;
+    const newContent = content["m.new_content"] || {
+      ...content,
+      body: (content.body || "").replace(/^\* /, ""),
+    };
+    const inboundText = normalizeInboundText(newContent);
+    const entityId = createUniqueUuid(this.runtime, event.sender);
+    const memoryId = createUniqueUuid(this.runtime, originalEventId);
 
-    if (membership === MATRIX_MEMBERSHIP.JOIN) {
-      // User joined room
-      const entityId = createUniqueUuid(
-        this.runtime,
-        event.state_key || event.sender,
+    const existing = await this.runtime.getMemoryById(memoryId);
+    // Only the original sender may edit a message
+    if (existing && existing.entityId === entityId) {
+      await this.runtime.updateMemory({
+        id: memoryId,
+        content: {
+          ...existing.content,
+          text: inboundText.text,
+          metadata: {
+            ...(existing.content.metadata as Record<string, unknown>),
+            formattedBody: inboundText.html,
+            editEventId: event.event_id,
+            editedAt: event.origin_server_ts || Date.now(),
+          },
+        },
+      });
+      this.runtime.logger.debug(
+        `Updated memory for edited message ${originalEventId} in room ${roomId}`,
       );
-      const roomUUID = createUniqueUuid(this.runtime, roomId);
+    } else {
+      this.runtime.logger.debug(
+        `Ignoring edit of unknown message ${originalEventId} in room ${roomId}`,
+      );
+      return;
+    }
 
-      this.runtime.emitEvent([MatrixEventTypes.USER_JOINED], {
-        runtime: this.runtime,
-        entityId,
-        worldId: roomUUID,
-        userId: event.state_key || event.sender,
-        room: await this.getRoomInfo(roomId),
-      });
-    } else if (membership === MATRIX_MEMBERSHIP.LEAVE) {
-      // User left room
-      const entityId = createUniqueUuid(
-        this.runtime,
-        event.state_key || event.sender,
+    const previousResponse = this.responses.get(originalEventId);
+    if (!this.matrixSettings.regenerateOnEdit || !previousResponse) {
+      return;
+    }
+
+    const room = await this.getRoomInfo(roomId);
+    if (
+      !(await this.mayRegenerateOnEdit(roomId, event, newContent, room, gate))
+    ) {
+      this.runtime.logger.debug(
+        `Not regenerating the reply to edited message ${originalEventId} in room ${roomId}`,
       );
-      const roomUUID = createUniqueUuid(this.runtime, roomId);
+      return;
+    }
+    const memory: Memory = {
+      id: createUniqueUuid(this.runtime, event.event_id),
+      entityId,
+      agentId: this.runtime.agentId,
+      content: {
+        text: inboundText.text,
+        source: "matrix",
+        channelType: room.isDirect ? ChannelType.DM : ChannelType.GROUP,
+        inReplyTo: existing.content.inReplyTo,
+        metadata: {
+          messageType: newContent.msgtype,
+          originalEvent: event.event_id,
+          roomId: roomId,
+          editOf: originalEventId,
+          formattedBody: inboundText.html,
+        },
+      },
+      roomId: createUniqueUuid(this.runtime, roomId),
+      createdAt: event.origin_server_ts || Date.now(),
+    };
+
+    // The regenerated answer replaces the bot's earlier reply
+    const callback: HandlerCallback = async (response): Promise<Memory[]> => {
+      try {
+        if (response.text) {
+          await this.replaceResponse(
+            roomId,
+            originalEventId,
+            previousResponse,
+            response.text,
+          );
+        }
+      } catch (error) {
+        this.runtime.logger.error(`Error editing response message: ${error}`);
+      }
+      return [];
+    };
 
-      this.runtime.emitEvent([MatrixEventTypes.USER_LEFT], {
+    this.runtime.emitEvent(
+      [MatrixEventTypes.MESSAGE_RECEIVED, "MESSAGE_RECEIVED"],
+      {
         runtime: this.runtime,
-        entityId,
-        worldId: roomUUID,
-        userId: event.state_key || event.sender,
-        room: await this.getRoomInfo(roomId),
+        message: memory,
+        callback,
+        originalEvent: event,
+        room,
+      },
+    );
+  }
+
+  /**
+   * Whether an edit may regenerate the bot's reply: the same checks as a new
+   * message, including the flood limiter, loop guard and response budget
+   */
+  private async mayRegenerateOnEdit(
+    roomId: string,
+    event: MatrixRoomEvent,
+    newContent: MatrixMessageContent,
+    room: MatrixRoom,
+    gate: EditGate,
+  ): Promise<boolean> {
+    if (gate.replayed || gate.botPolicy !== "respond") {
+      return false;
+    }
+    if (
+      room.isDirect &&
+      !(await this.isDirectMessageAllowed(event.sender, roomId))
+    ) {
+      return false;
+    }
+    if (
+      (await this.getMentionGate(roomId, room, newContent, gate.profile)) !==
+      "respond"
+    ) {
+      return false;
+    }
+    return (
+      (await this.admitInbound(roomId, event.sender, gate.profile)) &&
+      this.checkLoopGuard(roomId, event, newContent, gate.senderIsBot) &&
+      this.takeResponseSlot(roomId, gate.profile)
+    );
+  }
+
+  /**
+   * Report a change to the room's name, topic, avatar, power levels,
+   * encryption, join rules or aliases. The room state cache is already up
+   * to date; a new name is also given to the room's world and room.
+   */
+  private async handleStateEvent(roomId: string, event: MatrixRoomEvent) {
+    const change = parseStateChange(event);
+    if (!change) {
+      return;
+    }
+
+    if (change.stateType === "m.room.name") {
+      await this.renameWorld(roomId, change.name || roomId);
+    }
+
+    this.runtime.emitEvent([MatrixEventTypes.STATE_CHANGED], {
+      runtime: this.runtime,
+      source: "matrix",
+      roomId,
+      sender: event.sender,
+      originalEvent: event,
+      ...change,
+    });
+  }
+
+  /**
+   * Give the world and room of a Matrix room a new name
+   */
+  private async renameWorld(roomId: string, name: string) {
+    const roomUUID = createUniqueUuid(this.runtime, roomId);
+    try {
+      const world = await this.runtime.getWorld(roomUUID);
+      if (world && world.name !== name) {
+        await this.runtime.updateWorld({ ...world, name });
+      }
+      const room = await this.runtime.getRoom(roomUUID);
+      if (room && room.name !== name) {
+        await this.runtime.updateRoom({ ...room, name });
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to rename the world of room ${roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Handle member events, reporting each membership transition as its own
+   * Matrix event alongside the matching ElizaOS entity event
+   */
+  private async handleMemberEvent(roomId: string, event: MatrixRoomEvent) {
+    // A display name change is a join over a join, not a new member. The
+    // profile cache also spots renames the homeserver sent no prev_content for.
+    const rename = this.profileCache.applyMemberEvent(roomId, event);
+    const change: MembershipChange | null = rename
+      ? {
+          ...classifyMembership(event),
+          transition: "profile-changed",
+          userId: rename.userId,
+          sender: event.sender,
+          displayName: rename.displayName,
+          previousDisplayName: rename.previousName,
+        }
+      : classifyMembership(event);
+    if (!change) {
+      return;
+    }
+
+    if (rename) {
+      await this.handleDisplayNameChange(roomId, rename);
+    }
+
+    const entityId = createUniqueUuid(this.runtime, change.userId);
+    const roomUUID = createUniqueUuid(this.runtime, roomId);
+    const room = await this.getRoomInfo(roomId);
+
+    this.runtime.emitEvent(MEMBERSHIP_EVENTS[change.transition], {
+      runtime: this.runtime,
+      source: "matrix",
+      entityId,
+      worldId: roomUUID,
+      roomId: roomUUID,
+      metadata: {
+        orginalId: change.userId,
+        username: change.userId,
+        displayName: change.displayName,
+      },
+      room,
+      originalEvent: event,
+      ...change,
+    });
+  }
+
+  /**
+   * Record a user's new display name on their ElizaOS entity, so they are
+   * still recognised under the new name
+   */
+  private async handleDisplayNameChange(
+    roomId: string,
+    change: DisplayNameChange,
+  ) {
+    if (change.userId === (await this.client?.getUserId())) {
+      return;
+    }
+
+    this.runtime.logger.debug(
+      `${change.userId} changed display name in ${roomId} from ${change.previousName} to ${change.displayName}`,
+    );
+
+    const room = await this.getRoomInfo(roomId);
+    const roomUUID = createUniqueUuid(this.runtime, roomId);
+    try {
+      await this.runtime.ensureConnection({
+        entityId: createUniqueUuid(this.runtime, change.userId),
+        roomId: roomUUID,
+        userName: change.userId,
+        worldId: roomUUID as UUID,
+        worldName: room.name || roomId,
+        name: change.displayName || change.userId,
+        source: "matrix",
+        channelId: roomId,
+        type: room.isDirect ? ChannelType.DM : ChannelType.GROUP,
       });
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to update entity for ${change.userId}: ${error}`,
+      );
     }
   }
 
   /**
    * Handle reaction events
    */
-  private async handleReactionEvent(roomId: string, event: MatrixEvent) {
+  private async handleReactionEvent(roomId: string, event: MatrixRoomEvent) {
     const content = event.content as any;
     const relatesTo = content["m.relates_to"];
 
@@ -1239,6 +3242,11 @@ export class MatrixService extends Service implements IMatrixService {
     const targetEventId = relatesTo.event_id;
     const reactionKey = relatesTo.key;
 
+    // Reactions to a forwarded invite answer it
+    if (await this.answerInvite(event.sender, targetEventId, reactionKey)) {
+      return;
+    }
+
     const roomUUID = createUniqueUuid(this.runtime, roomId);
     const entityId = createUniqueUuid(this.runtime, event.sender);
     const reactionUUID = createUniqueUuid(this.runtime, event.event_id);
@@ -1251,17 +3259,23 @@ export class MatrixService extends Service implements IMatrixService {
         text: `*Reacted with ${reactionKey}*`,
         source: "matrix",
         inReplyTo: createUniqueUuid(this.runtime, targetEventId),
+        metadata: {
+          messageType: MATRIX_EVENT_TYPES.REACTION,
+          originalEvent: event.event_id,
+          roomId: roomId,
+          targetEventId,
+          reactionKey,
+        },
       },
       roomId: roomUUID,
       createdAt: event.origin_server_ts || Date.now(),
     };
 
+    this.rememberReaction(event.event_id, memory);
+
     const callback: HandlerCallback = async (content): Promise<Memory[]> => {
       if (content.text) {
-        await this.client?.sendMessage(roomId, {
-          msgtype: MATRIX_MESSAGE_TYPES.TEXT,
-          body: content.text,
-        });
+        await this.sendTextMessage(roomId, content.text);
       }
       return [];
     };
@@ -1279,10 +3293,562 @@ export class MatrixService extends Service implements IMatrixService {
     );
   }
 
+  /**
+   * Handle redaction events: delete or tombstone the memory of the redacted
+   * event, and report removed reactions as REACTION_REMOVED
+   */
+  private async handleRedactionEvent(roomId: string, event: MatrixRoomEvent) {
+    // Skip if room restrictions are set and this room is not allowed
+    if (this.allowedRoomIds && !this.isRoomAllowed(roomId)) {
+      return;
+    }
+
+    const content = event.content as
+      | { redacts?: string; reason?: string }
+      | undefined;
+    // Room version 11 moved redacts into the content
+    const redactedEventId =
+      (event as MatrixRoomEvent & { redacts?: string }).redacts ||
+      content?.redacts;
+    if (!redactedEventId) {
+      return;
+    }
+
+    const memoryId = createUniqueUuid(this.runtime, redactedEventId);
+    const existing = await this.runtime.getMemoryById(memoryId);
+
+    const reaction =
+      this.reactionMemories.get(redactedEventId) ||
+      ((existing?.content.metadata as { messageType?: string } | undefined)
+        ?.messageType === MATRIX_EVENT_TYPES.REACTION
+        ? existing
+        : undefined);
+    this.reactionMemories.delete(redactedEventId);
+    this.responses.delete(redactedEventId);
+
+    if (existing) {
+      if (this.matrixSettings.redactionPolicy === "tombstone") {
+        await this.runtime.updateMemory({
+          id: memoryId,
+          content: {
+            text: "[Message deleted]",
+            source: "matrix",
+            metadata: {
+              ...(existing.content.metadata as Record<string, unknown>),
+              redacted: true,
+              redactedBy: event.sender,
+              redactedAt: event.origin_server_ts || Date.now(),
+              reason: content?.reason,
+            },
+          },
+        });
+      } else {
+        await this.runtime.deleteMemory(memoryId);
+      }
+      this.runtime.logger.debug(
+        `Removed memory for redacted event ${redactedEventId} in room ${roomId}`,
+      );
+    }
+
+    if (reaction) {
+      const metadata = reaction.content.metadata as {
+        targetEventId: string;
+        reactionKey: string;
+      };
+      this.runtime.emitEvent(
+        [MatrixEventTypes.REACTION_REMOVED, "REACTION_REMOVED"],
+        {
+          runtime: this.runtime,
+          message: reaction,
+          source: "matrix",
+          originalEvent: event,
+          targetEventId: metadata.targetEventId,
+          reactionKey: metadata.reactionKey,
+        },
+      );
+    }
+  }
+
+  /**
+   * Remember a reaction memory, so a later redaction can be reported as a
+   * removed reaction even if the runtime did not store it
+   */
+  private rememberReaction(eventId: string, memory: Memory) {
+    this.reactionMemories.set(eventId, memory);
+    if (this.reactionMemories.size > MAX_TRACKED_REACTIONS) {
+      const oldest = this.reactionMemories.keys().next().value;
+      if (oldest) {
+        this.reactionMemories.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Redact a message. Other users' messages can only be redacted when the
+   * bot has the power level to do so.
+   * @returns Event ID of the redaction event
+   */
+  public async redactMessage(
+    roomId: string,
+    eventId: string,
+    reason?: string,
+  ): Promise<string> {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+
+    const botUserId = await this.client.getUserId();
+    const target = await this.client.getEvent(roomId, eventId);
+    if (
+      target?.sender !== botUserId &&
+      !(await this.client.userHasPowerLevelForAction(
+        botUserId,
+        roomId,
+        PowerLevelAction.RedactEvents,
+      ))
+    ) {
+      throw new Error(
+        `Not allowed to redact event ${eventId} sent by ${target?.sender}`,
+      );
+    }
+
+    return this.sendEvent(roomId, "m.room.redaction", {
+      redacts: eventId,
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  /**
+   * Import a room's history into memory. Messages that are already stored
+   * are skipped, so a backfill can be repeated safely. Without a limit,
+   * backfillLimit applies, unless a since date bounds the history instead.
+   */
+  public async backfillRoom(
+    roomId: string,
+    options: MatrixBackfillOptions = {},
+  ): Promise<MatrixBackfillResult> {
+    if (!this.client) {
+      throw new Error("Matrix client not available");
+    }
+
+    const since =
+      options.since instanceof Date ? options.since.getTime() : options.since;
+    const until =
+      options.until instanceof Date ? options.until.getTime() : options.until;
+    const events = await fetchRoomHistory(this.client, roomId, {
+      limit:
+        options.limit ??
+        (since === undefined
+          ? (this.matrixSettings.backfillLimit ?? DEFAULT_BACKFILL_LIMIT)
+          : undefined),
+      since,
+      until,
+    });
+
+    const room = await this.getRoomInfo(roomId);
+    const roomUUID = createUniqueUuid(this.runtime, roomId);
+    const channelType = room.isDirect ? ChannelType.DM : ChannelType.GROUP;
+    const botUserId = await this.client.getUserId();
+    const connectedSenders = new Set<string>();
+    const result: MatrixBackfillResult = {
+      imported: 0,
+      skipped: 0,
+      undecryptable: 0,
+    };
+
+    const decrypted: {
+      historyEvent: HistoryEvent;
+      event: HistoryEvent | null;
+    }[] = [];
+    for (const historyEvent of events) {
+      decrypted.push({
+        historyEvent,
+        event: await this.decryptHistoryEvent(roomId, historyEvent),
+      });
+    }
+
+    // /messages returns edited messages with their original content, so
+    // apply the latest edit from the original sender. Edits of messages
+    // older than the fetched history are lost.
+    const senders = new Map<string, string>();
+    for (const { event } of decrypted) {
+      if (event) {
+        senders.set(event.event_id, event.sender);
+      }
+    }
+    const replacements = new Map<string, MatrixMessageContent>();
+    for (const { event } of decrypted) {
+      const replacedEventId = event && getReplacedEventId(event.content);
+      if (
+        replacedEventId &&
+        senders.get(replacedEventId) === event.sender &&
+        event.content["m.new_content"]
+      ) {
+        replacements.set(replacedEventId, event.content["m.new_content"]);
+      }
+    }
+
+    for (const { historyEvent, event } of decrypted) {
+      if (!event) {
+        result.undecryptable++;
+        continue;
+      }
+
+      // Edits were applied above; redacted events have no content left
+      const replacement = replacements.get(event.event_id);
+      const content = replacement
+        ? { ...replacement, "m.relates_to": event.content["m.relates_to"] }
+        : event.content;
+      if (
+        !content?.msgtype ||
+        typeof content.body !== "string" ||
+        getReplacedEventId(event.content)
+      ) {
+        result.skipped++;
+        continue;
+      }
+
+      const memoryId = createUniqueUuid(this.runtime, event.event_id);
+      if (await this.runtime.getMemoryById(memoryId)) {
+        result.skipped++;
+        continue;
+      }
+
+      const isOwnMessage = event.sender === botUserId;
+      const entityId = isOwnMessage
+        ? this.runtime.agentId
+        : createUniqueUuid(this.runtime, event.sender);
+
+      if (!isOwnMessage && !connectedSenders.has(event.sender)) {
+        connectedSenders.add(event.sender);
+        await this.runtime.ensureConnection({
+          entityId,
+          roomId: roomUUID,
+          userName: event.sender,
+          worldId: roomUUID as UUID,
+          worldName: room.name || roomId,
+          name: await this.getDisplayName(roomId, event.sender),
+          source: "matrix",
+          channelId: roomId,
+          type: channelType,
+        });
+      }
+
+      const inboundText = normalizeInboundText(content);
+      let text = inboundText.text;
+      if (content.msgtype === MATRIX_MESSAGE_TYPES.EMOTE) {
+        text = `*${event.sender} ${inboundText.text}*`;
+      } else if (content.msgtype === MATRIX_MESSAGE_TYPES.NOTICE) {
+        text = `[Notice] ${inboundText.text}`;
+      } else if (content.url) {
+        text = `[${content.msgtype.replace("m.", "").toUpperCase()}] ${content.body}`;
+      }
+
+      await this.runtime.createMemory(
+        {
+          id: memoryId,
+          entityId,
+          agentId: this.runtime.agentId,
+          content: {
+            text,
+            source: "matrix",
+            channelType,
+            inReplyTo: this.getInReplyTo(content),
+            metadata: {
+              messageType: content.msgtype,
+              originalEvent: event.event_id,
+              roomId,
+              isMedia: !!content.url,
+              mediaUrl: content.url,
+              formattedBody: inboundText.html,
+              threadId: getThreadId(content),
+              replyToEventId: getReplyToEventId(content),
+              encrypted: historyEvent.type === MATRIX_EVENT_TYPES.ENCRYPTED,
+              backfilled: true,
+            },
+          },
+          roomId: roomUUID,
+          createdAt: event.origin_server_ts || Date.now(),
+        },
+        "messages",
+      );
+
+      // The same events may still arrive through sync
+      this.seenEvents.add(event.event_id);
+      result.imported++;
+    }
+
+    this.scheduleInboundStateSave();
+    this.runtime.logger.info(
+      `Backfilled room ${roomId}: ${result.imported} imported, ${result.skipped} skipped, ${result.undecryptable} undecryptable`,
+    );
+    return result;
+  }
+
+  /**
+   * Decrypt an encrypted history event, if the room keys are available
+   * @returns The decrypted event, or null when it cannot be decrypted
+   */
+  private async decryptHistoryEvent(
+    roomId: string,
+    event: HistoryEvent,
+  ): Promise<HistoryEvent | null> {
+    if (event.type !== MATRIX_EVENT_TYPES.ENCRYPTED) {
+      return event;
+    }
+
+    const crypto = this.client?.crypto;
+    if (!crypto?.isReady) {
+      return null;
+    }
+
+    try {
+      const decrypted = await crypto.decryptRoomEvent(
+        new EncryptedRoomEvent(event),
+        roomId,
+      );
+      return decrypted.raw;
+    } catch (error) {
+      this.runtime.logger.debug(
+        `Failed to decrypt history event ${event.event_id} in room ${roomId}: ${error}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Decide on a room invite: join, reject it, or ask the operator
+   */
+  private async handleRoomInvite(roomId: string, event: MatrixRoomEvent) {
+    await this.allowedRoomsLoaded;
+    const invite: RoomInvite = {
+      roomId,
+      inviter: event.sender,
+      isDirect:
+        (event.content as Partial<MatrixMemberContent>)?.is_direct === true,
+    };
+    const joinedRooms = await this.requireClient().getJoinedRooms();
+    const decision = evaluateInvite(
+      invite,
+      {
+        rules:
+          this.matrixSettings.inviteRules ??
+          (this.allowedRoomIds ? ["allowed-rooms"] : ["any"]),
+        allowlist: this.matrixSettings.inviteAllowlist || [],
+        maxJoinedRooms: this.matrixSettings.maxJoinedRooms,
+        askOperator: Boolean(this.matrixSettings.inviteOperator),
+      },
+      {
+        isRoomAllowed: this.isRoomAllowed(roomId),
+        joinedRoomCount: joinedRooms.length,
+      },
+    );
+
+    switch (decision.action) {
+      case "accept":
+        this.runtime.logger.info(
+          `Accepting invite to room ${roomId} from ${invite.inviter} (rule: ${decision.rule})`,
+        );
+        await this.acceptInvite(invite);
+        break;
+      case "ask":
+        await this.askOperatorAboutInvite(invite);
+        break;
+      case "reject":
+        await this.rejectInvite(invite, decision.reason);
+        break;
+    }
+  }
+
+  /**
+   * Join an invited room; invites to DMs are recorded in m.direct
+   */
+  private async acceptInvite(invite: RoomInvite) {
+    try {
+      await this.requireClient().joinRoom(invite.roomId);
+      if (!this.isRoomAllowed(invite.roomId)) {
+        this.addAllowedRoom(invite.roomId, "invite");
+      }
+      if (invite.isDirect) {
+        this.directInviteRoomIds.add(invite.roomId);
+        await this.recordDirectRoom(invite.inviter, invite.roomId);
+      }
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to join room ${invite.roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Turn down an invite and record why
+   */
+  private async rejectInvite(invite: RoomInvite, reason: string) {
+    this.runtime.logger.info(
+      `Rejecting invite to room ${invite.roomId} from ${invite.inviter}: ${reason}`,
+    );
+    this.rejectedInvites.push({ ...invite, reason, rejectedAt: Date.now() });
+    if (this.rejectedInvites.length > MAX_REJECTED_INVITES) {
+      this.rejectedInvites.shift();
+    }
+
+    try {
+      await this.client?.leaveRoom(invite.roomId);
+    } catch (error) {
+      this.runtime.logger.warn(
+        `Failed to reject invite to room ${invite.roomId}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Forward an invite to the operator's DM. The operator answers by
+   * reacting; invites without an answer are rejected after the timeout.
+   */
+  private async askOperatorAboutInvite(invite: RoomInvite) {
+    const operator = this.matrixSettings.inviteOperator as string;
+    await this.pendingInvitesLoaded;
+    for (const pending of this.pendingInvites.values()) {
+      if (pending.roomId === invite.roomId) {
+        return;
+      }
+    }
+
+    let eventId: string;
+    try {
+      const dmRoomId = await this.getOrCreateDMRoom(operator);
+      const target = invite.isDirect ? "a direct message" : "room";
+      eventId = await this.sendEvent(dmRoomId, "m.room.message", {
+        msgtype: MATRIX_MESSAGE_TYPES.NOTICE,
+        body: `${invite.inviter} invited me to ${target} ${invite.roomId}. React with ${INVITE_ACCEPT_REACTIONS[0]} to join or ${INVITE_DECLINE_REACTIONS[0]} to decline.`,
+      });
+    } catch (error) {
+      await this.rejectInvite(invite, `could not ask ${operator}: ${error}`);
+      return;
+    }
+
+    const timeoutMs =
+      this.matrixSettings.inviteApprovalTimeoutMs ??
+      DEFAULT_INVITE_APPROVAL_TIMEOUT_MS;
+    this.trackPendingInvite(eventId, {
+      ...invite,
+      operator,
+      expiresAt: Date.now() + timeoutMs,
+    });
+    await this.savePendingInvites();
+    this.runtime.logger.info(
+      `Asked ${operator} about the invite to room ${invite.roomId} from ${invite.inviter}`,
+    );
+  }
+
+  /**
+   * Wait for the operator's answer to an invite, rejecting it once it
+   * expires
+   */
+  private trackPendingInvite(
+    eventId: string,
+    pending: Omit<PendingInvite, "timer">,
+  ) {
+    const timer = setTimeout(
+      () => {
+        this.pendingInvites.delete(eventId);
+        void this.savePendingInvites();
+        const { operator, expiresAt, ...invite } = pending;
+        void this.rejectInvite(invite, `${operator} did not answer`);
+      },
+      Math.max(pending.expiresAt - Date.now(), 0),
+    );
+    this.pendingInvites.set(eventId, { ...pending, timer });
+  }
+
+  /**
+   * Load the invites that were waiting for an operator before a restart,
+   * and start their timeouts again. Invites that expired in the meantime
+   * are rejected right away.
+   */
+  private async loadPendingInvites(): Promise<void> {
+    try {
+      const stored = await this.runtime.getCache<StoredPendingInvites>(
+        PENDING_INVITES_CACHE_KEY,
+      );
+      if (!stored || typeof stored !== "object") {
+        return;
+      }
+      for (const [eventId, pending] of Object.entries(stored)) {
+        if (
+          pending?.roomId &&
+          pending.operator &&
+          typeof pending.expiresAt === "number" &&
+          !this.pendingInvites.has(eventId)
+        ) {
+          this.trackPendingInvite(eventId, pending);
+        }
+      }
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to load pending invites: ${error}`);
+    }
+  }
+
+  private async savePendingInvites(): Promise<void> {
+    await this.pendingInvitesLoaded;
+    const stored: StoredPendingInvites = {};
+    for (const [eventId, { timer, ...pending }] of this.pendingInvites) {
+      stored[eventId] = pending;
+    }
+    try {
+      await this.runtime.setCache(PENDING_INVITES_CACHE_KEY, stored);
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to save pending invites: ${error}`);
+    }
+  }
+
+  /**
+   * Act on an operator's reaction to a forwarded invite
+   * @returns Whether the reaction answered an invite
+   */
+  private async answerInvite(
+    sender: string,
+    targetEventId: string,
+    reactionKey: string,
+  ): Promise<boolean> {
+    await this.pendingInvitesLoaded;
+    const pending = this.pendingInvites.get(targetEventId);
+    if (!pending || pending.operator !== sender) {
+      return false;
+    }
+    // Strip the emoji variation selector some clients add
+    const key = String(reactionKey).replace(/\uFE0F/g, "");
+    const accepted = INVITE_ACCEPT_REACTIONS.includes(key);
+    if (!accepted && !INVITE_DECLINE_REACTIONS.includes(key)) {
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingInvites.delete(targetEventId);
+    await this.savePendingInvites();
+    const { operator, timer, expiresAt, ...invite } = pending;
+    if (accepted) {
+      this.runtime.logger.info(
+        `${operator} approved the invite to room ${invite.roomId}`,
+      );
+      await this.acceptInvite(invite);
+    } else {
+      await this.rejectInvite(invite, `declined by ${operator}`);
+    }
+    return true;
+  }
+
+  /**
+   * Invites the bot turned down, oldest first
+   */
+  public getRejectedInvites(): RejectedInvite[] {
+    return [...this.rejectedInvites];
+  }
+
   /**
    * Handle room join events
    */
-  private async handleRoomJoin(roomId: string, event: MatrixEvent) {
+  private async handleRoomJoin(roomId: string, event: MatrixRoomEvent) {
     try {
       const room = await this.getRoomInfo(roomId);
 
@@ -1309,12 +3875,22 @@ export class MatrixService extends Service implements IMatrixService {
     } catch (error) {
       this.runtime.logger.error(`Error handling room join: ${error}`);
     }
+
+    if (this.matrixSettings.backfillOnJoin) {
+      try {
+        await this.backfillRoom(roomId);
+      } catch (error) {
+        this.runtime.logger.error(
+          `Failed to backfill room ${roomId}: ${error}`,
+        );
+      }
+    }
   }
 
   /**
    * Handle room leave events
    */
-  private async handleRoomLeave(roomId: string, event: MatrixEvent) {
+  private async handleRoomLeave(roomId: string, event: MatrixRoomEvent) {
     try {
       const room = await this.getRoomInfo(roomId);
       const roomUUID = createUniqueUuid(this.runtime, roomId);
@@ -1328,6 +3904,10 @@ export class MatrixService extends Service implements IMatrixService {
     } catch (error) {
       this.runtime.logger.error(`Error handling room leave: ${error}`);
     }
+
+    // The bot no longer receives this room's state
+    this.roomStateCache.invalidate(roomId);
+    this.profileCache.forgetRoom(roomId);
   }
 
   /**
@@ -1383,35 +3963,108 @@ export class MatrixService extends Service implements IMatrixService {
       return true;
     }
     return (
-      this.allowedRoomIds.includes(roomId) || this.dynamicRoomIds.has(roomId)
+      this.allowedRoomIds.includes(roomId) || this.dynamicRooms.has(roomId)
     );
   }
 
   /**
-   * Adds a room to the dynamic allowed list
+   * Whether an ElizaOS entity is one of the users allowed to change the room
+   * allowlist: the roomAdmins, and the invite operator
    */
-  public addAllowedRoom(roomId: string): boolean {
-    this.dynamicRoomIds.add(roomId);
+  public isRoomAdmin(entityId: UUID): boolean {
+    const admins = [
+      ...(this.matrixSettings.roomAdmins || []),
+      ...(this.matrixSettings.inviteOperator
+        ? [this.matrixSettings.inviteOperator]
+        : []),
+    ];
+    return admins.some(
+      (userId) => createUniqueUuid(this.runtime, userId) === entityId,
+    );
+  }
+
+  /**
+   * Adds a room to the dynamic allowed list and saves the list
+   */
+  public addAllowedRoom(
+    roomId: string,
+    source: Exclude<AllowedRoomSource, "env"> = "dynamic",
+  ): boolean {
+    this.dynamicRooms.set(roomId, { roomId, source, addedAt: Date.now() });
+    void this.saveAllowedRooms();
     return true;
   }
 
   /**
-   * Removes a room from the dynamic allowed list
+   * Removes a room from the dynamic allowed list and saves the list
+   * @returns False for rooms from MATRIX_ROOM_IDS, which cannot be removed
    */
   public removeAllowedRoom(roomId: string): boolean {
     if (this.allowedRoomIds?.includes(roomId)) {
       return false;
     }
-    return this.dynamicRoomIds.delete(roomId);
+    if (!this.dynamicRooms.delete(roomId)) {
+      return false;
+    }
+    void this.saveAllowedRooms();
+    return true;
   }
 
   /**
    * Gets the list of all allowed rooms
    */
   public getAllowedRooms(): string[] {
-    const envRooms = this.allowedRoomIds || [];
-    const dynamicRooms = Array.from(this.dynamicRoomIds);
-    return [...new Set([...envRooms, ...dynamicRooms])];
+    return this.getAllowedRoomEntries().map((entry) => entry.roomId);
+  }
+
+  /**
+   * All allowed rooms with where they came from; rooms from
+   * MATRIX_ROOM_IDS come first
+   */
+  public getAllowedRoomEntries(): AllowedRoom[] {
+    const entries: AllowedRoom[] = (this.allowedRoomIds || []).map(
+      (roomId) => ({ roomId, source: "env" }),
+    );
+    for (const entry of this.dynamicRooms.values()) {
+      if (!this.allowedRoomIds?.includes(entry.roomId)) {
+        entries.push({ ...entry });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Load the rooms added to the allowlist before a restart
+   */
+  private async loadAllowedRooms(): Promise<void> {
+    try {
+      const entries = await this.runtime.getCache<AllowedRoom[]>(
+        ALLOWED_ROOMS_CACHE_KEY,
+      );
+      if (!Array.isArray(entries)) {
+        return;
+      }
+      for (const entry of entries) {
+        // Rooms added before the list was loaded win
+        if (entry?.roomId && !this.dynamicRooms.has(entry.roomId)) {
+          this.dynamicRooms.set(entry.roomId, entry);
+        }
+      }
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to load allowed rooms: ${error}`);
+    }
+  }
+
+  private async saveAllowedRooms(): Promise<void> {
+    await this.allowedRoomsLoaded;
+    try {
+      await this.runtime.setCache(
+        ALLOWED_ROOMS_CACHE_KEY,
+        Array.from(this.dynamicRooms.values()),
+      );
+    } catch (error) {
+      this.runtime.logger.warn(`Failed to save allowed rooms: ${error}`);
+    }
   }
 
   /**
@@ -1420,6 +4073,30 @@ export class MatrixService extends Service implements IMatrixService {
   public async stop(): Promise<void> {
     this.runtime.logger.info("Stopping Matrix service...");
 
+    this.typingIndicator.stopAll();
+    await this.finishStreams(SEND_QUEUE_DRAIN_TIMEOUT_MS);
+    await this.sendQueue.drain(SEND_QUEUE_DRAIN_TIMEOUT_MS);
+    this.roomStateCache.clear();
+    this.profileCache.clear();
+    this.roomResponseTimes.clear();
+    this.inboundLimiter.clear();
+
+    for (const pending of this.pendingInvites.values()) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingInvites.clear();
+
+    for (const timer of this.catchUpTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.catchUpTimers.clear();
+
+    if (this.inboundStateSaveTimer) {
+      clearTimeout(this.inboundStateSaveTimer);
+      this.inboundStateSaveTimer = null;
+      await this.saveInboundState();
+    }
+
     if (this.client) {
       await this.client.stop();
       this.client = null;
@@ -0,0 +1,126 @@
+import { MATRIX_STATE_EVENT_TYPES } from "./constants";
+import type { MatrixRoomEvent, MatrixStateChange } from "./types";
+
+const STATE_EVENT_TYPES: string[] = Object.values(MATRIX_STATE_EVENT_TYPES);
+
+/**
+ * Content fields of the reported state events, all of which may be
+ * missing. Those checked with typeof before use are left unknown.
+ */
+type ReportedStateContent = {
+  name?: string;
+  topic?: string;
+  url?: string;
+  users?: Record<string, number>;
+  algorithm?: unknown;
+  join_rule?: unknown;
+  alias?: string;
+  alt_aliases?: unknown;
+};
+
+/**
+ * Whether an event is one of the room state events reported as changes
+ */
+export function isReportedStateEvent(event: MatrixRoomEvent): boolean {
+  return (
+    typeof event?.state_key === "string" &&
+    STATE_EVENT_TYPES.includes(event.type)
+  );
+}
+
+/**
+ * Describe a room state event as a typed change. Previous values come from
+ * the prev_content the homeserver sends along with the event.
+ * @returns Null for other events, or events without the expected content
+ */
+export function parseStateChange(
+  event: MatrixRoomEvent,
+): MatrixStateChange | null {
+  if (!isReportedStateEvent(event)) {
+    return null;
+  }
+  const content = (event.content || {}) as ReportedStateContent;
+  const previous = (event.unsigned?.prev_content || {}) as ReportedStateContent;
+
+  switch (event.type) {
+    case MATRIX_STATE_EVENT_TYPES.NAME:
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.NAME,
+        name: content.name || undefined,
+        previousName: previous.name || undefined,
+      };
+    case MATRIX_STATE_EVENT_TYPES.TOPIC:
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.TOPIC,
+        topic: content.topic || undefined,
+        previousTopic: previous.topic || undefined,
+      };
+    case MATRIX_STATE_EVENT_TYPES.AVATAR:
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.AVATAR,
+        avatarUrl: content.url || undefined,
+        previousAvatarUrl: previous.url || undefined,
+      };
+    case MATRIX_STATE_EVENT_TYPES.POWER_LEVELS:
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.POWER_LEVELS,
+        powerLevels: content,
+        changedUsers: getChangedUsers(previous.users, content.users),
+      };
+    case MATRIX_STATE_EVENT_TYPES.ENCRYPTION:
+      if (typeof content.algorithm !== "string") {
+        return null;
+      }
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.ENCRYPTION,
+        algorithm: content.algorithm,
+      };
+    case MATRIX_STATE_EVENT_TYPES.JOIN_RULES:
+      if (typeof content.join_rule !== "string") {
+        return null;
+      }
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.JOIN_RULES,
+        joinRule: content.join_rule,
+        previousJoinRule:
+          typeof previous.join_rule === "string"
+            ? previous.join_rule
+            : undefined,
+      };
+    case MATRIX_STATE_EVENT_TYPES.CANONICAL_ALIAS:
+      return {
+        stateType: MATRIX_STATE_EVENT_TYPES.CANONICAL_ALIAS,
+        alias: content.alias || undefined,
+        altAliases: Array.isArray(content.alt_aliases)
+          ? content.alt_aliases.filter(
+              (alias: unknown) => typeof alias === "string",
+            )
+          : [],
+        previousAlias: previous.alias || undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Users whose power level differs between two users maps
+ */
+function getChangedUsers(
+  before: Record<string, number> | undefined,
+  after: Record<string, number> | undefined,
+): Record<string, { from?: number; to?: number }> {
+  const changed: Record<string, { from?: number; to?: number }> = {};
+  const userIds = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  for (const userId of userIds) {
+    const from = before?.[userId];
+    const to = after?.[userId];
+    if (from !== to) {
+      changed[userId] = { from, to };
+    }
+  }
+  return changed;
+}
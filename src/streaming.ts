@@ -0,0 +1,137 @@
+/**
+ * Sends and edits the messages of a streamed reply
+ */
+export interface StreamingTransport {
+  /** Send a new message, returning its event ID */
+  send(text: string): Promise<string>;
+  /** Replace the text of a message sent earlier */
+  edit(eventId: string, text: string): Promise<unknown>;
+}
+
+/**
+ * Options for a streamed reply
+ */
+export interface StreamingReplyOptions {
+  /** Minimum time between two edits, in milliseconds */
+  editIntervalMs: number;
+  /** Split the reply into messages below the size limit */
+  split: (text: string) => string[];
+  /** Called when the reply grew by a message, with all its event IDs */
+  onSent?: (eventIds: string[]) => void;
+  /** Called when no edit is pending any more */
+  onIdle?: () => void;
+  /** Called when a throttled edit fails */
+  onError?: (error: unknown) => void;
+}
+
+/** Chunks are separate pieces of the answer: each starts a new paragraph */
+const CHUNK_SEPARATOR = "\n\n";
+
+/**
+ * A reply that grows as chunks arrive: the first chunk is sent as a new
+ * message and later chunks are applied as throttled m.replace edits. Text
+ * past the size limit continues in new messages. The last edit is sent at
+ * most one edit interval after the last chunk, so the final text always
+ * lands.
+ */
+export class StreamingReply {
+  private text = "";
+  private messages: { eventId: string; text: string }[] = [];
+  private started = false;
+  private lastEditAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(
+    private readonly transport: StreamingTransport,
+    private readonly options: StreamingReplyOptions,
+  ) {}
+
+  /**
+   * Event IDs of the messages sent so far
+   */
+  get eventIds(): string[] {
+    return this.messages.map((message) => message.eventId);
+  }
+
+  /**
+   * Append a chunk of text to the reply
+   */
+  append(chunk: string): Promise<void> {
+    if (this.finished || !chunk.trim()) {
+      return Promise.resolve();
+    }
+    this.text = this.text ? `${this.text}${CHUNK_SEPARATOR}${chunk}` : chunk;
+
+    // The first chunk is shown right away
+    if (!this.started) {
+      this.started = true;
+      this.lastEditAt = Date.now();
+      return this.enqueue(() => this.flush());
+    }
+
+    const wait = this.lastEditAt + this.options.editIntervalMs - Date.now();
+    if (wait <= 0 && !this.timer) {
+      this.lastEditAt = Date.now();
+      return this.enqueue(() => this.flush());
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.lastEditAt = Date.now();
+        this.enqueue(() => this.flush()).catch((error) =>
+          this.options.onError?.(error),
+        );
+      }, wait);
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Send the text not shown yet without waiting for the edit interval, and
+   * accept no further chunks
+   */
+  finish(): Promise<void> {
+    this.finished = true;
+    this.cancelTimer();
+    return this.enqueue(() => this.flush());
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    // A failed step must not block the steps queued after it
+    const run = this.queue.catch(() => undefined).then(task);
+    this.queue = run;
+    return run.finally(() => {
+      if (!this.timer && this.queue === run) {
+        this.options.onIdle?.();
+      }
+    });
+  }
+
+  private async flush(): Promise<void> {
+    const parts = this.options.split(this.text);
+    let grew = false;
+    for (const [index, part] of parts.entries()) {
+      const message = this.messages[index];
+      if (!message) {
+        const eventId = await this.transport.send(part);
+        this.messages.push({ eventId, text: part });
+        grew = true;
+      } else if (message.text !== part) {
+        await this.transport.edit(message.eventId, part);
+        message.text = part;
+      }
+    }
+    if (grew) {
+      this.options.onSent?.(this.eventIds);
+    }
+  }
+}
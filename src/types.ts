@@ -1,10 +1,63 @@
 import type {
   Character,
   EntityPayload,
+  EventPayload,
   MessagePayload,
   WorldPayload,
 } from "@elizaos/core";
 import type { MatrixClient, MatrixEvent } from "matrix-bot-sdk";
+import type { FloodScope, TokenBucketBudget } from "./inboundLimiter";
+
+/**
+ * An event as matrix-bot-sdk hands it to listeners. Listeners receive the
+ * raw event JSON, which carries the spec's field names alongside those the
+ * MatrixEvent wrapper exposes.
+ */
+export interface MatrixRoomEvent<T = unknown> extends MatrixEvent<T> {
+  event_id: string;
+  origin_server_ts: number;
+  state_key?: string;
+  /** For state events, prev_content is the content this event replaced */
+  unsigned?: { prev_content?: unknown };
+}
+
+/**
+ * The m.relates_to block of an event's content
+ */
+export interface MatrixRelatesTo {
+  rel_type?: string;
+  event_id?: string;
+  key?: string;
+  is_falling_back?: boolean;
+  "m.in_reply_to"?: { event_id?: string };
+}
+
+/**
+ * Content of an inbound room message. Other clients and bridges send what
+ * they like, so every field may be missing.
+ */
+export interface MatrixMessageContent {
+  msgtype?: string;
+  body?: string;
+  format?: string;
+  formatted_body?: string;
+  url?: string;
+  "m.mentions"?: { user_ids?: string[]; room?: boolean };
+  "m.relates_to"?: MatrixRelatesTo;
+  "m.new_content"?: MatrixMessageContent;
+}
+
+/**
+ * Content of an m.room.member state event
+ */
+export interface MatrixMemberContent {
+  membership: string;
+  displayname?: string;
+  avatar_url?: string;
+  reason?: string;
+  /** Set on invites to DMs */
+  is_direct?: boolean;
+}
 
 /**
  * Matrix-specific event types
@@ -25,9 +78,18 @@ export enum MatrixEventTypes {
   // User events
   USER_JOINED = "MATRIX_USER_JOINED",
   USER_LEFT = "MATRIX_USER_LEFT",
+  USER_KICKED = "MATRIX_USER_KICKED",
+  USER_BANNED = "MATRIX_USER_BANNED",
+  USER_INVITED = "MATRIX_USER_INVITED",
+  USER_KNOCKED = "MATRIX_USER_KNOCKED",
+  USER_PROFILE_CHANGED = "MATRIX_USER_PROFILE_CHANGED",
 
   // State events
   STATE_CHANGED = "MATRIX_STATE_CHANGED",
+
+  // Safety events
+  LOOP_DETECTED = "MATRIX_LOOP_DETECTED",
+  FLOOD_DETECTED = "MATRIX_FLOOD_DETECTED",
 }
 
 /**
@@ -54,7 +116,7 @@ export interface MatrixMessageSentPayload extends MessagePayload {
  * Matrix-specific reaction received payload
  */
 export interface MatrixReactionPayload extends MessagePayload {
-  /** The original Matrix reaction event */
+  /** The original Matrix reaction event, or the redaction that removed it */
   originalEvent: MatrixEvent;
   /** The target event ID that was reacted to */
   targetEventId: string;
@@ -71,25 +133,165 @@ export interface MatrixRoomPayload extends WorldPayload {
 }
 
 /**
- * Matrix-specific user joined payload
+ * How a user's membership of a room changed:
+ * - joined / left: the user joined or left on their own
+ * - kicked / banned: someone else removed the user
+ * - invited / knocked: the user was invited, or asked to join
+ * - profile-changed: a member changed their display name or avatar
  */
-export interface MatrixUserJoinedPayload extends EntityPayload {
+export type MembershipTransition =
+  | "joined"
+  | "left"
+  | "kicked"
+  | "banned"
+  | "invited"
+  | "knocked"
+  | "profile-changed";
+
+/**
+ * Matrix-specific membership payload
+ */
+export interface MatrixMembershipPayload extends EntityPayload {
   /** The Matrix user ID */
   userId: string;
   /** The Matrix room */
   room: MatrixRoom;
+  transition: MembershipTransition;
+  /** The user who made the change; differs from userId for kicks, bans and invites */
+  sender: string;
+  /** Reason given for the change, if any */
+  reason?: string;
+  /** The original m.room.member event */
+  originalEvent: MatrixEvent;
 }
 
 /**
- * Matrix-specific user left payload
+ * Matrix-specific user joined payload
  */
-export interface MatrixUserLeftPayload extends EntityPayload {
-  /** The Matrix user ID */
+export interface MatrixUserJoinedPayload extends MatrixMembershipPayload {}
+
+/**
+ * Matrix-specific user left payload, also used for kicks and bans
+ */
+export interface MatrixUserLeftPayload extends MatrixMembershipPayload {}
+
+/**
+ * Matrix-specific profile changed payload
+ */
+export interface MatrixUserProfileChangedPayload
+  extends MatrixMembershipPayload {
+  displayName?: string;
+  previousDisplayName?: string;
+  avatarUrl?: string;
+  previousAvatarUrl?: string;
+}
+
+/**
+ * Matrix-specific loop detected payload
+ */
+export interface MatrixLoopDetectedPayload extends EventPayload {
+  /** The Matrix room ID where the loop was detected */
+  roomId: string;
+  /** The sender the bot was ping-ponging with */
   userId: string;
-  /** The Matrix room */
-  room: MatrixRoom;
+  /** Too many exchanges within the window, or too deep a reply chain */
+  reason: "exchanges" | "reply-depth";
+  /** How long the bot stops answering that sender in the room, in milliseconds */
+  cooldownMs: number;
+}
+
+/**
+ * Matrix-specific flood detected payload
+ */
+export interface MatrixFloodDetectedPayload extends EventPayload {
+  /** The Matrix room ID the flood was in */
+  roomId: string;
+  /** The sender whose message exceeded the budget */
+  userId: string;
+  /** The budget that was exceeded */
+  scope: FloodScope;
+  /** What happened to the messages over the budget */
+  action: FloodAction;
+}
+
+/**
+ * Fields shared by all state changed payloads
+ */
+export interface MatrixStateChangeBase extends EventPayload {
+  /** The Matrix room ID whose state changed */
+  roomId: string;
+  /** The user who changed the state */
+  sender: string;
+  /** The original Matrix state event */
+  originalEvent: MatrixEvent;
+}
+
+export interface MatrixRoomNameChange {
+  stateType: "m.room.name";
+  /** The new name; undefined when the name was removed */
+  name?: string;
+  previousName?: string;
+}
+
+export interface MatrixRoomTopicChange {
+  stateType: "m.room.topic";
+  topic?: string;
+  previousTopic?: string;
+}
+
+export interface MatrixRoomAvatarChange {
+  stateType: "m.room.avatar";
+  /** MXC URL of the new avatar */
+  avatarUrl?: string;
+  previousAvatarUrl?: string;
+}
+
+export interface MatrixPowerLevelsChange {
+  stateType: "m.room.power_levels";
+  /** The new power levels content */
+  powerLevels: Record<string, unknown>;
+  /** Users whose power level changed, with their old and new levels */
+  changedUsers: Record<string, { from?: number; to?: number }>;
+}
+
+export interface MatrixEncryptionChange {
+  stateType: "m.room.encryption";
+  /** The encryption algorithm the room switched to */
+  algorithm: string;
+}
+
+export interface MatrixJoinRulesChange {
+  stateType: "m.room.join_rules";
+  /** The new join rule (public, invite, knock, restricted, ...) */
+  joinRule: string;
+  previousJoinRule?: string;
+}
+
+export interface MatrixCanonicalAliasChange {
+  stateType: "m.room.canonical_alias";
+  alias?: string;
+  altAliases: string[];
+  previousAlias?: string;
 }
 
+/**
+ * A change to one of the room state events the plugin reports
+ */
+export type MatrixStateChange =
+  | MatrixRoomNameChange
+  | MatrixRoomTopicChange
+  | MatrixRoomAvatarChange
+  | MatrixPowerLevelsChange
+  | MatrixEncryptionChange
+  | MatrixJoinRulesChange
+  | MatrixCanonicalAliasChange;
+
+/**
+ * Matrix-specific state changed payload; stateType tells the changes apart
+ */
+export type MatrixStateChangedPayload = MatrixStateChangeBase &
+  MatrixStateChange;
+
 /**
  * Maps Matrix event types to their payload interfaces
  */
@@ -102,6 +304,14 @@ export interface MatrixEventPayloadMap {
   [MatrixEventTypes.ROOM_LEFT]: MatrixRoomPayload;
   [MatrixEventTypes.USER_JOINED]: MatrixUserJoinedPayload;
   [MatrixEventTypes.USER_LEFT]: MatrixUserLeftPayload;
+  [MatrixEventTypes.USER_KICKED]: MatrixUserLeftPayload;
+  [MatrixEventTypes.USER_BANNED]: MatrixUserLeftPayload;
+  [MatrixEventTypes.USER_INVITED]: MatrixMembershipPayload;
+  [MatrixEventTypes.USER_KNOCKED]: MatrixMembershipPayload;
+  [MatrixEventTypes.USER_PROFILE_CHANGED]: MatrixUserProfileChangedPayload;
+  [MatrixEventTypes.STATE_CHANGED]: MatrixStateChangedPayload;
+  [MatrixEventTypes.LOOP_DETECTED]: MatrixLoopDetectedPayload;
+  [MatrixEventTypes.FLOOD_DETECTED]: MatrixFloodDetectedPayload;
 }
 
 /**
@@ -123,10 +333,251 @@ export const ServiceType = {
  */
 export interface MatrixSettings {
   allowedRoomIds?: string[];
+  /** Ignore messages from bots; shorthand for botMessages "ignore" */
   shouldIgnoreBotMessages?: boolean;
+  /** How messages from bots are handled (default: "respond") */
+  botMessages?: BotMessagePolicy;
+  /** Per-room overrides of botMessages, keyed by room ID */
+  botMessagesByRoom?: Record<string, BotMessagePolicy>;
+  /** Regexes for bot user IDs, replacing the default "bot" localpart pattern */
+  botUserIdPatterns?: string[];
+  /** Appservice user namespaces (regexes) whose users count as bots */
+  appserviceNamespaces?: string[];
+  /** Users that are always treated as bots */
+  botUserIds?: string[];
+  /** Users that are never treated as bots */
+  humanUserIds?: string[];
+  /** Treat senders of m.notice messages as bots (default: true) */
+  detectBotNotices?: boolean;
+  /** Stop answering bots that keep replying to the bot (default: true) */
+  loopGuardEnabled?: boolean;
+  /** Back-and-forth exchanges with flagged bots that trip the loop guard (default: 8) */
+  loopGuardMaxExchanges?: number;
+  /** Window the exchanges are counted in, in milliseconds (default: 120000) */
+  loopGuardWindowMs?: number;
+  /** Depth of a reply or thread chain between flagged bots and the bot's responses that trips the loop guard (default: 24) */
+  loopGuardMaxReplyDepth?: number;
+  /** How long the loop guard stays tripped, in milliseconds (default: 600000) */
+  loopGuardCooldownMs?: number;
+  /** Notice posted to the room when the loop guard trips */
+  loopGuardNotice?: string;
+  /** What happens to messages from before the service started (default: "ignore-before-start") */
+  startupPolicy?: StartupPolicy;
+  /** With the "catch-up" policy, post a summary of the replayed messages */
+  catchUpSummary?: boolean;
+  /** Import recent history into memory when the bot joins a room */
+  backfillOnJoin?: boolean;
+  /** Messages imported by a backfill (default: 100) */
+  backfillLimit?: number;
+  /** How long cached room state is trusted without a sync update, in milliseconds (default: 300000) */
+  roomStateCacheTtlMs?: number;
+  /** How long a global profile is trusted before it is fetched again, in milliseconds (default: 1800000) */
+  profileCacheTtlMs?: number;
+  /** Ignore direct messages; shorthand for dmPolicy "ignore" */
   shouldIgnoreDirectMessages?: boolean;
+  /** Who the bot talks to in direct messages (default: "open") */
+  dmPolicy?: DirectMessagePolicy;
+  /** User IDs or homeservers allowed by the "allowlist" DM policy */
+  dmAllowlist?: string[];
+  /** Notice sent to rejected DMs before the bot leaves */
+  dmRejectionNotice?: string;
+  /** Leave DM rooms the policy rejects, when m.direct or the invite mark them as DMs (default: true) */
+  leaveRejectedDirectMessages?: boolean;
+  /** Rules for accepting room invites (default: ["allowed-rooms"] with MATRIX_ROOM_IDS, otherwise ["any"]) */
+  inviteRules?: InviteRule[];
+  /** User IDs or homeservers whose invites the "allowlist" rule accepts */
+  inviteAllowlist?: string[];
+  /** User ID of the operator asked about invites no rule accepts */
+  inviteOperator?: string;
+  /** User IDs allowed to change the room allowlist through ALLOW_ROOM and DISALLOW_ROOM, besides the invite operator */
+  roomAdmins?: string[];
+  /** How long an operator has to answer an invite, in milliseconds (default: 86400000) */
+  inviteApprovalTimeoutMs?: number;
+  /** Most rooms the bot joins; later invites are rejected */
+  maxJoinedRooms?: number;
+  /** In group rooms, only answer messages that mention the bot */
   shouldRespondOnlyToMentions?: boolean;
+  /** Messages that do not mention the bot are forwarded as observe-only, or dropped (default: "observe") */
+  unmentionedMessages?: "observe" | "drop";
+  /** Apply shouldRespondOnlyToMentions to direct messages too (default: false) */
+  requireMentionsInDirectMessages?: boolean;
   encryptionEnabled?: boolean;
+  /** Render agent Markdown as Matrix HTML (default: true) */
+  renderMarkdown?: boolean;
+  /** Rooms that always receive plain text, even when renderMarkdown is on */
+  plainTextRoomIds?: string[];
+  /** Answer in a thread even when the triggering message is at the top level */
+  alwaysReplyInThread?: boolean;
+  /** Send agent responses in group rooms as replies to the triggering message */
+  replyToMessages?: boolean;
+  /** Regenerate the bot's reply when a user edits the message that triggered it */
+  regenerateOnEdit?: boolean;
+  /** What happens to the memory of a redacted event (default: "delete") */
+  redactionPolicy?: "delete" | "tombstone";
+  /** Show replies that arrive in several chunks as they come, by editing the first message (default: false) */
+  streamReplies?: boolean;
+  /** Minimum time between edits of a streamed reply, in milliseconds (default: 1500) */
+  streamEditIntervalMs?: number;
+  /** Rooms whose clients or bridges do not render edits well: streamed replies are sent chunk by chunk there */
+  streamDisabledRoomIds?: string[];
+  /** Show the bot as typing while it works on a response (default: true) */
+  sendTypingIndicators?: boolean;
+  /** Longest time the bot shows as typing for one message, in milliseconds (default: 120000) */
+  typingTimeoutMs?: number;
+  /** Send read receipts for messages the bot handles (default: true) */
+  sendReadReceipts?: boolean;
+  /** Attempts per outbound event before it goes to the dead-letter log (default: 5) */
+  sendMaxAttempts?: number;
+  /** Longest backoff between send retries, in milliseconds (default: 30000) */
+  sendRetryMaxDelayMs?: number;
+  /** Token bucket budgets for inbound messages, per sender, per room and across all rooms */
+  inboundLimits?: {
+    sender?: TokenBucketBudget;
+    room?: TokenBucketBudget;
+    global?: TokenBucketBudget;
+  };
+  /** What happens to messages over the inbound budgets (default: "drop") */
+  floodAction?: FloodAction;
+  /** Notice posted once when a sender exceeds the inbound budgets with the "notify" action */
+  floodNotice?: string;
+  /** Per-room behaviour profiles, keyed by room ID or alias */
+  rooms?: Record<string, MatrixRoomProfile>;
+}
+
+/**
+ * Behaviour for one room, overriding the global settings
+ */
+export interface MatrixRoomProfile {
+  /**
+   * When the bot answers: every message, only mentions (DMs included), or
+   * never (messages are forwarded as observe-only)
+   */
+  responseMode?: "always" | "mentions" | "observe";
+  /** How messages from bots are handled, overriding botMessages */
+  botMessages?: BotMessagePolicy;
+  /** Where answers go: a thread, a reply to the message, or the room timeline */
+  replyStyle?: "thread" | "reply" | "plain";
+  /** Message type of the bot's text messages (default: "m.text") */
+  messageType?: "m.text" | "m.notice";
+  /** Most responses within the window; later messages are only observed */
+  rateLimit?: {
+    maxResponses: number;
+    windowMs: number;
+  };
+  /** Download images for the agent to look at (default: true) */
+  mediaDownloads?: boolean;
+  /** Largest image that is downloaded, in bytes */
+  maxMediaBytes?: number;
+  /** Inbound budgets for this room, overriding the global sender and room budgets */
+  inboundLimits?: {
+    sender?: TokenBucketBudget;
+    room?: TokenBucketBudget;
+  };
+  /** What happens to messages over the inbound budgets, overriding floodAction */
+  floodAction?: FloodAction;
+}
+
+/**
+ * What happens to inbound messages over budget: dropped, held back until
+ * the budget allows them, or dropped after a one-time cooldown notice
+ */
+export type FloodAction = "drop" | "queue" | "notify";
+
+/**
+ * What happens to messages from bots: dropped, forwarded as observe-only,
+ * or answered like any other message
+ */
+export type BotMessagePolicy = "ignore" | "observe" | "respond";
+
+/**
+ * Where an allowed room came from: MATRIX_ROOM_IDS, JOIN_ROOM or
+ * ALLOW_ROOM, or an invite accepted under the invite policy
+ */
+export type AllowedRoomSource = "env" | "dynamic" | "invite";
+
+/**
+ * A room in the room allowlist
+ */
+export interface AllowedRoom {
+  roomId: string;
+  source: AllowedRoomSource;
+  /** When the room was added; not set for rooms from MATRIX_ROOM_IDS */
+  addedAt?: number;
+}
+
+/**
+ * Rules for accepting room invites:
+ * - any: every invite
+ * - allowlist: invites from users or homeservers listed in inviteAllowlist
+ * - direct: invites to direct messages
+ * - allowed-rooms: invites to rooms in MATRIX_ROOM_IDS or the dynamic allowlist
+ */
+export type InviteRule = "any" | "allowlist" | "direct" | "allowed-rooms";
+
+/**
+ * Who the bot accepts direct messages from:
+ * - open: everyone
+ * - ignore: nobody
+ * - allowlist: users or homeservers listed in dmAllowlist
+ * - require-shared-room: users who share a group room with the bot
+ */
+export type DirectMessagePolicy =
+  | "open"
+  | "ignore"
+  | "allowlist"
+  | "require-shared-room";
+
+/**
+ * How messages sent before the service started are handled:
+ * - ignore-before-start: skipped
+ * - catch-up: messages missed since the last processed one are stored as
+ *   observe-only memories
+ * - replay-all: processed like new messages
+ */
+export type StartupPolicy = "ignore-before-start" | "catch-up" | "replay-all";
+
+/**
+ * The newest message processed in a room
+ */
+export interface LastProcessedEvent {
+  eventId: string;
+  timestamp: number;
+}
+
+/**
+ * Options for importing a room's history into memory
+ */
+export interface MatrixBackfillOptions {
+  /** Most messages to import (default: backfillLimit) */
+  limit?: number;
+  /** Only import messages sent after this time */
+  since?: Date | number;
+  /** Only import messages sent before this time */
+  until?: Date | number;
+}
+
+/**
+ * Outcome of a room history backfill
+ */
+export interface MatrixBackfillResult {
+  /** Messages stored as new memories */
+  imported: number;
+  /** Messages already in memory, edits and redacted events */
+  skipped: number;
+  /** Encrypted messages without keys */
+  undecryptable: number;
+}
+
+/**
+ * Options for outbound text messages
+ */
+export interface MatrixSendOptions {
+  /** Thread root event ID; the message is sent into that thread */
+  threadId?: string;
+  /** Latest event in the thread, used as the reply fallback for clients without thread support */
+  threadFallbackEventId?: string;
+  /** Event ID to quote with m.in_reply_to */
+  replyToEventId?: string;
 }
 
 /**
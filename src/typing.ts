@@ -0,0 +1,119 @@
+/**
+ * Sends typing notifications to a room
+ */
+export interface TypingTransport {
+  setTyping(
+    roomId: string,
+    typing: boolean,
+    timeoutMs: number,
+  ): Promise<unknown>;
+}
+
+/**
+ * Options for typing notifications
+ */
+export interface TypingIndicatorOptions {
+  /** Timeout sent to the server with each typing notification */
+  timeoutMs: number;
+  /** How often the notification is renewed while still typing */
+  renewIntervalMs: number;
+  /** Longest time a single message keeps the bot typing */
+  maxDurationMs: number;
+  /** Called when a typing notification fails */
+  onError?: (error: unknown) => void;
+}
+
+interface TypingRoom {
+  /** Deadline timers of the messages holding the indicator */
+  holds: Set<ReturnType<typeof setTimeout>>;
+  renewTimer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Keeps the bot shown as typing in a room while messages there are being
+ * answered. Each message holds the indicator until it is released or its
+ * deadline passes; the room stops typing once every hold is gone.
+ */
+export class TypingIndicator {
+  private rooms: Map<string, TypingRoom> = new Map();
+
+  constructor(
+    private readonly transport: TypingTransport,
+    private readonly options: TypingIndicatorOptions,
+  ) {}
+
+  /**
+   * Start typing in a room
+   * @returns A function that releases this hold on the indicator
+   */
+  start(roomId: string): () => void {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        holds: new Set(),
+        renewTimer: setInterval(
+          () => this.send(roomId, true),
+          this.options.renewIntervalMs,
+        ),
+      };
+      this.rooms.set(roomId, room);
+      this.send(roomId, true);
+    }
+
+    const typingRoom = room;
+    const hold = setTimeout(() => release(), this.options.maxDurationMs);
+    typingRoom.holds.add(hold);
+
+    const release = () => {
+      clearTimeout(hold);
+      if (!typingRoom.holds.delete(hold)) {
+        return;
+      }
+      if (
+        typingRoom.holds.size === 0 &&
+        this.rooms.get(roomId) === typingRoom
+      ) {
+        this.stopRoom(roomId);
+      }
+    };
+    return release;
+  }
+
+  /**
+   * Whether the bot is currently shown as typing in a room
+   */
+  isTyping(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  /**
+   * Stop typing in every room
+   */
+  stopAll(): void {
+    for (const roomId of [...this.rooms.keys()]) {
+      this.stopRoom(roomId);
+    }
+  }
+
+  private stopRoom(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return;
+    }
+    clearInterval(room.renewTimer);
+    for (const hold of room.holds) {
+      clearTimeout(hold);
+    }
+    room.holds.clear();
+    this.rooms.delete(roomId);
+    this.send(roomId, false);
+  }
+
+  private send(roomId: string, typing: boolean): void {
+    Promise.resolve()
+      .then(() =>
+        this.transport.setTyping(roomId, typing, this.options.timeoutMs),
+      )
+      .catch((error) => this.options.onError?.(error));
+  }
+}